@@ -0,0 +1,33 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import NodedbJson from '../src/index';
+
+// 预写日志模式下从 .bak 恢复后，新的修改必须在重启后仍然存在
+const filePath = path.resolve(__dirname, "db/journal-recovery-db.json");
+const options = { journal: true, backup: true, autoSave: false, onRecover: () => console.log("已从备份恢复") };
+
+const files = [filePath, `${filePath}.bak`, `${filePath}.wal`, `${filePath}.indexes.json`];
+files.forEach(file => fs.rmSync(file, { force: true }));
+
+// 两次重写数据文件，使 .bak 中有完好的数据
+const db = new NodedbJson(filePath, options);
+db.set("a", 1);
+db.compact();
+db.set("a", 2);
+db.compact();
+db.close();
+
+// 损坏主文件后重新打开，从备份恢复，再写入并保存新的修改
+fs.writeFileSync(filePath, "{ corrupt");
+const recovered = new NodedbJson(filePath, options);
+recovered.set("b", "important");
+recovered.save();
+recovered.close();
+
+// 重新打开时应重放日志中的修改
+const reopened = new NodedbJson(filePath, options);
+console.log("a:", reopened.get("a"));
+console.log("b:", reopened.get("b"), reopened.get("b") === "important" ? "✓" : "✗");
+reopened.close();
+
+files.forEach(file => fs.rmSync(file, { force: true }));
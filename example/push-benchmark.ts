@@ -0,0 +1,52 @@
+import * as path from 'path';
+import NodedbJson from '../src/index';
+
+// 定义记录接口
+interface BenchmarkRecord {
+  id: number;
+  age: number;
+  email: string;
+}
+
+// 基准测试只关心索引维护的开销，关闭自动保存以排除文件写入
+const db = new NodedbJson(path.resolve(__dirname, "db/benchmark-db.json"), {
+  autoSave: false,
+  persistIndexes: false,
+  defaultValue: {}
+});
+
+db.set("records", []);
+db.createIndex("records", { field: "id", type: "unique" });
+db.createIndex("records", { field: "email", type: "unique" });
+db.createIndex("records", { field: "age", type: "multi" });
+
+const checkpoints = [1000, 10000, 50000, 100000, 200000];
+const sampleSize = 1000;
+let nextId = 1;
+
+function pushRecord(): void {
+  const id = nextId++;
+  db.push("records", <BenchmarkRecord>{
+    id,
+    age: 20 + (id % 50),
+    email: `user${id}@example.com`
+  });
+}
+
+console.log("=== push 吞吐量（每个采样点追加 %d 条记录）===", sampleSize);
+
+for (const size of checkpoints) {
+  // 填充到采样点规模
+  while (nextId <= size) {
+    pushRecord();
+  }
+
+  const start = performance.now();
+  for (let i = 0; i < sampleSize; i++) {
+    pushRecord();
+  }
+  const elapsed = performance.now() - start;
+
+  const opsPerSecond = Math.round(sampleSize / (elapsed / 1000));
+  console.log(`集合规模 ${String(size).padStart(6)}: ${opsPerSecond} ops/s (${elapsed.toFixed(2)} ms)`);
+}
@@ -0,0 +1,451 @@
+import { Readable } from 'stream';
+import NodedbJson from './index';
+import {
+  AnyValue,
+  PredicateFunction,
+  UpdaterObject,
+  DbOptions,
+  IndexDefinition,
+  QueryOptions,
+  QueryResult,
+  SortOption,
+  PaginationResult,
+  AggregationOption,
+  AggregationResult,
+  WhereCondition,
+  ChangeEvent,
+  SchemaDefinition,
+  ValidationOptions,
+  EncryptionKey,
+  EncryptionKeyProvider,
+  StorageAdapter,
+  TransferFormat,
+  ImportSource,
+  ImportOptions,
+  ImportResult,
+  ExportOptions,
+  SnapshotOptions,
+  SnapshotInfo
+} from './types';
+
+/**
+ * 异步持久化的数据库：修改方法返回 Promise，并通过 fs.promises 写入文件
+ * 相邻的修改合并为一次写入，Promise 在包含该修改的写入落盘后 resolve
+ */
+export class NodedbJsonAsync {
+  private db: NodedbJson;
+  private closed: boolean = false;
+
+  /**
+   * 创建异步数据库实例，初始读取仍为同步操作
+   * @param {string|StorageAdapter} filePathOrStorage - JSON 文件路径或存储适配器
+   * @param {DbOptions} [options] - 数据库选项，autoSave 始终关闭
+   */
+  constructor(filePathOrStorage: string | StorageAdapter, options: DbOptions = {}) {
+    this.db = new NodedbJson(filePathOrStorage, { ...options, autoSave: false });
+  }
+
+  /**
+   * 设置值
+   * @param {string} key - 路径
+   * @param {any} value - 值
+   * @returns {Promise<NodedbJsonAsync>} - 写入落盘后 resolve
+   */
+  async set(key: string, value: AnyValue): Promise<NodedbJsonAsync> {
+    await this._mutate(() => this.db.set(key, value));
+    return this;
+  }
+
+  /**
+   * 获取值
+   * @param {string} key - 路径
+   * @returns {any} - 值
+   */
+  get(key: string): AnyValue {
+    return this.db.get(key);
+  }
+
+  /**
+   * 检查路径是否存在
+   * @param {string} key - 路径
+   * @returns {boolean} - 是否存在
+   */
+  has(key: string): boolean {
+    return this.db.has(key);
+  }
+
+  /**
+   * 更新对象或数组中的记录
+   * @param {string} key - 路径
+   * @param {function|object} predicateOrUpdater - 谓词函数或更新对象
+   * @param {object} [updater] - 提供谓词函数时的更新对象
+   * @returns {Promise<NodedbJsonAsync>} - 写入落盘后 resolve
+   */
+  async update<T>(key: string, predicateOrUpdater: PredicateFunction<T> | UpdaterObject, updater?: UpdaterObject): Promise<NodedbJsonAsync> {
+    await this._mutate(() => this.db.update<T>(key, predicateOrUpdater, updater));
+    return this;
+  }
+
+  /**
+   * 删除路径或数组中的记录
+   * @param {string} key - 路径
+   * @param {function|Array<string|number>} [predicateOrKeys] - 谓词函数或要删除的字段值列表
+   * @param {string} [field='id'] - 按字段值删除时匹配的字段
+   * @returns {Promise<NodedbJsonAsync>} - 写入落盘后 resolve
+   */
+  async delete<T>(key: string, predicateOrKeys?: PredicateFunction<T> | Array<string | number>, field: string = 'id'): Promise<NodedbJsonAsync> {
+    await this._mutate(() => this.db.delete<T>(key, predicateOrKeys, field));
+    return this;
+  }
+
+  /**
+   * 向数组追加记录
+   * @param {string} key - 路径
+   * @param {any|any[]} value - 一条或多条记录
+   * @returns {Promise<NodedbJsonAsync>} - 写入落盘后 resolve
+   */
+  async push(key: string, value: AnyValue | AnyValue[]): Promise<NodedbJsonAsync> {
+    await this._mutate(() => this.db.push(key, value));
+    return this;
+  }
+
+  /**
+   * 插入一条记录，缺少主键时自动生成
+   * @param {string} key - 集合路径
+   * @param {T} doc - 要插入的记录
+   * @returns {Promise<T>} - 实际存储的记录
+   */
+  async insertOne<T = any>(key: string, doc: T): Promise<T> {
+    return this._mutate(() => this.db.insertOne<T>(key, doc));
+  }
+
+  /**
+   * 插入多条记录，缺少主键时自动生成
+   * @param {string} key - 集合路径
+   * @param {T[]} docs - 要插入的记录
+   * @returns {Promise<T[]>} - 实际存储的记录
+   */
+  async insertMany<T = any>(key: string, docs: T[]): Promise<T[]> {
+    return this._mutate(() => this.db.insertMany<T>(key, docs));
+  }
+
+  /**
+   * 更新所有匹配条件的记录
+   * @param {string} key - 集合路径
+   * @param {PredicateFunction<T> | WhereCondition<T>} where - 过滤条件
+   * @param {UpdaterObject} updater - 更新对象
+   * @returns {Promise<number>} - 更新的记录数
+   */
+  async updateMany<T = any>(key: string, where: PredicateFunction<T> | WhereCondition<T>, updater: UpdaterObject): Promise<number> {
+    return this._mutate(() => this.db.updateMany<T>(key, where, updater));
+  }
+
+  /**
+   * 删除所有匹配条件的记录
+   * @param {string} key - 集合路径
+   * @param {PredicateFunction<T> | WhereCondition<T>} where - 过滤条件
+   * @returns {Promise<number>} - 删除的记录数
+   */
+  async deleteMany<T = any>(key: string, where: PredicateFunction<T> | WhereCondition<T>): Promise<number> {
+    return this._mutate(() => this.db.deleteMany<T>(key, where));
+  }
+
+  /**
+   * 在事务中执行回调，回调收到同步的数据库实例；提交后写入一次文件
+   * @param {function} fn - 事务回调，必须是同步函数
+   * @returns {Promise<R>} - 回调的返回值
+   */
+  async transaction<R>(fn: (db: NodedbJson) => R): Promise<R> {
+    return this._mutate(() => this.db.transaction(fn));
+  }
+
+  /**
+   * 在一个事务中执行多个写操作
+   * @param {Array<{method: string, args: any[]}>} operations - 操作列表
+   * @returns {Promise<NodedbJsonAsync>} - 写入落盘后 resolve
+   */
+  async batch(operations: Array<{method: string, args: any[]}>): Promise<NodedbJsonAsync> {
+    await this._mutate(() => this.db.transaction(tx => tx.batch(operations)));
+    return this;
+  }
+
+  /**
+   * 创建索引
+   * @param {string} key - 集合路径
+   * @param {IndexDefinition} indexDefinition - 索引定义
+   * @returns {Promise<NodedbJsonAsync>} - 实例
+   */
+  async createIndex(key: string, indexDefinition: IndexDefinition): Promise<NodedbJsonAsync> {
+    await this._mutate(() => this.db.createIndex(key, indexDefinition));
+    return this;
+  }
+
+  /**
+   * 删除索引
+   * @param {string} key - 集合路径
+   * @param {string|string[]} fieldOrFields - 字段，复合索引传入字段列表
+   * @returns {Promise<NodedbJsonAsync>} - 实例
+   */
+  async dropIndex(key: string, fieldOrFields: string | string[]): Promise<NodedbJsonAsync> {
+    await this._mutate(() => this.db.dropIndex(key, fieldOrFields));
+    return this;
+  }
+
+  /**
+   * 获取所有索引定义
+   * @returns {Record<string, Record<string, IndexDefinition>>} - 索引定义
+   */
+  getIndexes(): Record<string, Record<string, IndexDefinition>> {
+    return this.db.getIndexes();
+  }
+
+  /**
+   * 查找第一条匹配的记录
+   * @param {string} key - 集合路径
+   * @param {function} predicate - 谓词函数
+   * @returns {T | undefined} - 匹配的记录
+   */
+  find<T>(key: string, predicate: PredicateFunction<T>): T | undefined {
+    return this.db.find<T>(key, predicate);
+  }
+
+  /**
+   * 按字段值查找记录，有索引时使用索引
+   * @param {string} key - 集合路径
+   * @param {string} field - 字段
+   * @param {any} value - 字段值
+   * @returns {T | undefined} - 匹配的记录
+   */
+  findByField<T>(key: string, field: string, value: any): T | undefined {
+    return this.db.findByField<T>(key, field, value);
+  }
+
+  /**
+   * 过滤记录
+   * @param {string} key - 集合路径
+   * @param {function} predicate - 谓词函数
+   * @returns {T[]} - 匹配的记录
+   */
+  filter<T>(key: string, predicate: PredicateFunction<T>): T[] {
+    return this.db.filter<T>(key, predicate);
+  }
+
+  /**
+   * 按字段的多个可能值过滤记录，有索引时使用索引
+   * @param {string} key - 集合路径
+   * @param {string} field - 字段
+   * @param {any[]} values - 字段值列表
+   * @returns {T[]} - 匹配的记录
+   */
+  filterByField<T>(key: string, field: string, values: any[]): T[] {
+    return this.db.filterByField<T>(key, field, values);
+  }
+
+  /**
+   * 复杂查询
+   * @param {string} key - 集合路径
+   * @param {QueryOptions<T>} [options] - 查询选项
+   * @returns {QueryResult<T>} - 查询结果
+   */
+  query<T = any>(key: string, options: QueryOptions<T> = {}): QueryResult<T> {
+    return this.db.query<T>(key, options);
+  }
+
+  /**
+   * 排序查询
+   * @param {string} key - 集合路径
+   * @param {SortOption|SortOption[]} sort - 排序选项
+   * @param {number} [limit] - 限制数量
+   * @returns {T[]} - 排序后的记录
+   */
+  orderBy<T = any>(key: string, sort: SortOption | SortOption[], limit?: number): T[] {
+    return this.db.orderBy<T>(key, sort, limit);
+  }
+
+  /**
+   * 分页查询
+   * @param {string} key - 集合路径
+   * @param {number} page - 页码
+   * @param {number} pageSize - 每页大小
+   * @param {PredicateFunction<T> | WhereCondition<T>} [where] - 过滤条件
+   * @returns {PaginationResult<T>} - 分页结果
+   */
+  paginate<T = any>(
+    key: string,
+    page: number,
+    pageSize: number,
+    where?: PredicateFunction<T> | WhereCondition<T>
+  ): PaginationResult<T> {
+    return this.db.paginate<T>(key, page, pageSize, where);
+  }
+
+  /**
+   * 聚合查询
+   * @param {string} key - 集合路径
+   * @param {AggregationOption[]} aggregations - 聚合选项
+   * @param {PredicateFunction<T> | WhereCondition<T>} [where] - 过滤条件
+   * @returns {AggregationResult[]} - 聚合结果
+   */
+  aggregate<T = any>(
+    key: string,
+    aggregations: AggregationOption[],
+    where?: PredicateFunction<T> | WhereCondition<T>
+  ): AggregationResult[] {
+    return this.db.aggregate<T>(key, aggregations, where);
+  }
+
+  /**
+   * 统计记录数
+   * @param {string} key - 集合路径
+   * @param {PredicateFunction<T> | WhereCondition<T>} [where] - 过滤条件
+   * @returns {number} - 记录数
+   */
+  count<T = any>(key: string, where?: PredicateFunction<T> | WhereCondition<T>): number {
+    return this.db.count<T>(key, where);
+  }
+
+  /**
+   * 获取字段的去重值
+   * @param {string} key - 集合路径
+   * @param {string} field - 字段
+   * @returns {any[]} - 去重后的值
+   */
+  distinct(key: string, field: string): any[] {
+    return this.db.distinct(key, field);
+  }
+
+  /**
+   * 为路径注册结构定义，之后写入该路径及其子路径时先校验
+   * @param {string} key - 路径
+   * @param {SchemaDefinition} schema - JSON Schema 或简写的结构定义
+   * @param {ValidationOptions} [options] - 校验选项
+   * @returns {NodedbJsonAsync} - 实例
+   */
+  registerSchema(key: string, schema: SchemaDefinition, options?: ValidationOptions): NodedbJsonAsync {
+    this.db.registerSchema(key, schema, options);
+    return this;
+  }
+
+  /**
+   * 移除路径上的结构定义
+   * @param {string} key - 路径
+   * @returns {NodedbJsonAsync} - 实例
+   */
+  removeSchema(key: string): NodedbJsonAsync {
+    this.db.removeSchema(key);
+    return this;
+  }
+
+  /**
+   * 订阅指定路径的变更
+   * @param {string} key - 路径
+   * @param {function} listener - 回调
+   * @returns {function} - 取消订阅的函数
+   */
+  watchKey(key: string, listener: (event: ChangeEvent) => void): () => void {
+    return this.db.watchKey(key, listener);
+  }
+
+  /**
+   * 监听所有变更
+   * @param {function} listener - 回调
+   * @returns {function} - 取消订阅的函数
+   */
+  onChange(listener: (event: ChangeEvent) => void): () => void {
+    this.db.on('change', listener);
+    return () => {
+      this.db.off('change', listener);
+    };
+  }
+
+  /**
+   * 用新密钥重新加密数据文件；传入 null 时改为明文保存
+   * @param {EncryptionKey|EncryptionKeyProvider|null} key - 新密钥或返回新密钥的函数
+   * @returns {Promise<NodedbJsonAsync>} - 写入完成后 resolve
+   */
+  async rotateEncryptionKey(key: EncryptionKey | EncryptionKeyProvider | null): Promise<NodedbJsonAsync> {
+    await this._mutate(() => this.db.rotateEncryptionKey(key));
+    return this;
+  }
+
+  /**
+   * 把当前数据和索引定义写入快照
+   * @param {string|StorageAdapter} dest - 快照文件路径或存储；timestamped 时为快照目录
+   * @param {SnapshotOptions} [options] - 快照选项
+   * @returns {SnapshotInfo} - 快照位置和时间
+   */
+  snapshot(dest: string | StorageAdapter, options?: SnapshotOptions): SnapshotInfo {
+    return this.db.snapshot(dest, options);
+  }
+
+  /**
+   * 用快照替换当前数据并重建索引
+   * @param {string|StorageAdapter} src - 快照文件路径或存储
+   * @returns {Promise<NodedbJsonAsync>} - 写入完成后 resolve
+   */
+  async restore(src: string | StorageAdapter): Promise<NodedbJsonAsync> {
+    await this._mutate(() => this.db.restore(src));
+    return this;
+  }
+
+  /**
+   * 从流中逐批导入记录到集合
+   * @param {string} key - 集合路径
+   * @param {ImportSource} source - 数据来源
+   * @param {ImportOptions} options - 导入选项
+   * @returns {Promise<ImportResult>} - 导入的记录落盘后 resolve
+   */
+  async importCollection(key: string, source: ImportSource, options: ImportOptions): Promise<ImportResult> {
+    if (this.closed) {
+      throw new Error('Database is closed.');
+    }
+
+    const result = await this.db.importCollection(key, source, options);
+    await this.db.flush();
+    return result;
+  }
+
+  /**
+   * 把集合导出为可读流
+   * @param {string} key - 集合路径
+   * @param {TransferFormat} format - 数据格式
+   * @param {ExportOptions<T>} [options] - 导出选项
+   * @returns {Readable} - 文本流
+   */
+  exportCollection<T = any>(key: string, format: TransferFormat, options?: ExportOptions<T>): Readable {
+    return this.db.exportCollection<T>(key, format, options);
+  }
+
+  /**
+   * 等待所有已发起的修改落盘
+   * @returns {Promise<void>} - 写入完成后 resolve
+   */
+  flush(): Promise<void> {
+    return this.db.flush();
+  }
+
+  /**
+   * 写入剩余的修改并关闭数据库，释放文件锁，之后的修改操作会被拒绝
+   * @returns {Promise<void>} - 写入完成后 resolve
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    await this.db.flush();
+    this.db.close();
+  }
+
+  /**
+   * 执行同步修改并等待包含该修改的写入完成
+   * @param {function} mutate - 修改数据的回调
+   * @returns {Promise<R>} - 回调的返回值
+   */
+  private async _mutate<R>(mutate: () => R): Promise<R> {
+    if (this.closed) {
+      throw new Error('Database is closed.');
+    }
+
+    const result = mutate();
+    await this.db.flush();
+    return result;
+  }
+}
@@ -0,0 +1,154 @@
+import type NodedbJson from './index';
+import {
+  PredicateFunction,
+  QueryOptions,
+  QueryResult,
+  IndexDefinition,
+  Path,
+  PathValue,
+  TypedWhereCondition,
+  CollectionQueryOptions,
+  TypedIndexDefinition,
+  DeepPartial,
+  UpdateOperators,
+  ChangeEvent
+} from './types';
+
+/**
+ * 类型化的集合句柄，绑定一个集合路径及其记录类型
+ */
+export class Collection<T extends object = any> {
+  private db: NodedbJson;
+  private key: string;
+
+  /**
+   * 创建集合句柄，通常通过 db.collection<T>(key) 获取
+   * @param {NodedbJson} db - 数据库实例
+   * @param {string} key - 集合路径
+   */
+  constructor(db: NodedbJson, key: string) {
+    this.db = db;
+    this.key = key;
+  }
+
+  /**
+   * 集合路径
+   */
+  get name(): string {
+    return this.key;
+  }
+
+  /**
+   * 插入一条或多条记录，缺少主键时按集合的主键策略生成
+   * @param {T|T[]} docs - 要插入的记录
+   * @returns {T|T[]} - 实际存储的记录（包含主键）
+   */
+  insert(doc: T): T;
+  insert(docs: T[]): T[];
+  insert(docs: T | T[]): T | T[] {
+    return Array.isArray(docs)
+      ? this.db.insertMany<T>(this.key, docs)
+      : this.db.insertOne<T>(this.key, docs);
+  }
+
+  /**
+   * 查找所有匹配条件的记录
+   * @param {PredicateFunction<T> | TypedWhereCondition<T>} [where] - 过滤条件，省略时返回全部记录
+   * @returns {T[]} - 匹配的记录
+   */
+  find(where?: PredicateFunction<T> | TypedWhereCondition<T>): T[] {
+    return this.query({ where }).data;
+  }
+
+  /**
+   * 查找第一条匹配条件的记录
+   * @param {PredicateFunction<T> | TypedWhereCondition<T>} where - 过滤条件
+   * @returns {T | undefined} - 匹配的记录
+   */
+  findOne(where: PredicateFunction<T> | TypedWhereCondition<T>): T | undefined {
+    return this.query({ where, limit: 1 }).data[0];
+  }
+
+  /**
+   * 更新所有匹配条件的记录
+   * @param {PredicateFunction<T> | TypedWhereCondition<T>} where - 过滤条件
+   * @param {DeepPartial<T>|UpdateOperators} changes - 要合并到记录中的字段，或更新操作符
+   * @returns {number} - 更新的记录数
+   */
+  update(where: PredicateFunction<T> | TypedWhereCondition<T>, changes: DeepPartial<T> | UpdateOperators): number {
+    return this.db.updateMany<T>(this.key, where as QueryOptions<T>['where'] & object, changes);
+  }
+
+  /**
+   * 删除所有匹配条件的记录
+   * @param {PredicateFunction<T> | TypedWhereCondition<T>} where - 过滤条件
+   * @returns {number} - 删除的记录数
+   */
+  delete(where: PredicateFunction<T> | TypedWhereCondition<T>): number {
+    return this.db.deleteMany<T>(this.key, where as QueryOptions<T>['where'] & object);
+  }
+
+  /**
+   * 复杂查询，支持排序、分页、聚合等
+   * @param {CollectionQueryOptions<T>} [options] - 查询选项
+   * @returns {QueryResult<T>} - 查询结果
+   */
+  query(options: CollectionQueryOptions<T> = {}): QueryResult<T> {
+    return this.db.query<T>(this.key, options as QueryOptions<T>);
+  }
+
+  /**
+   * 统计匹配条件的记录数
+   * @param {PredicateFunction<T> | TypedWhereCondition<T>} [where] - 过滤条件
+   * @returns {number} - 记录数
+   */
+  count(where?: PredicateFunction<T> | TypedWhereCondition<T>): number {
+    return this.db.count<T>(this.key, where as QueryOptions<T>['where']);
+  }
+
+  /**
+   * 获取字段的去重值
+   * @param {Path<T>} field - 字段路径
+   * @returns {Array<PathValue<T, P>>} - 去重后的值
+   */
+  distinct<P extends Path<T>>(field: P): Array<PathValue<T, P>> {
+    return this.db.distinct(this.key, field);
+  }
+
+  /**
+   * 在集合上创建索引
+   * @param {TypedIndexDefinition<T>} indexDefinition - 索引定义
+   * @returns {Collection<T>} - 集合句柄，支持链式调用
+   */
+  createIndex(indexDefinition: TypedIndexDefinition<T>): Collection<T> {
+    this.db.createIndex(this.key, indexDefinition as IndexDefinition);
+    return this;
+  }
+
+  /**
+   * 删除集合上的索引
+   * @param {Path<T>|Path<T>[]} field - 字段路径，复合索引传入字段列表
+   * @returns {Collection<T>} - 集合句柄，支持链式调用
+   */
+  dropIndex(field: Path<T> | Path<T>[]): Collection<T> {
+    this.db.dropIndex(this.key, field);
+    return this;
+  }
+
+  /**
+   * 订阅集合的变更
+   * @param {function} listener - 回调
+   * @returns {function} - 取消订阅的函数
+   */
+  watch(listener: (event: ChangeEvent) => void): () => void {
+    return this.db.watchKey(this.key, listener);
+  }
+
+  /**
+   * 获取集合上的索引定义
+   * @returns {Record<string, IndexDefinition>} - 以索引名称为键的索引定义
+   */
+  getIndexes(): Record<string, IndexDefinition> {
+    return this.db.getIndexes()[this.key] || {};
+  }
+}
@@ -0,0 +1,118 @@
+import * as crypto from 'crypto';
+import * as _ from 'lodash';
+import {
+  EncryptedValue,
+  EncryptionKey,
+  EncryptionKeyProvider
+} from './types';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+
+/**
+ * 取得 32 字节的密钥；字符串密钥按十六进制或 base64 解码
+ * @param {EncryptionKey|EncryptionKeyProvider} key - 密钥或返回密钥的函数
+ * @returns {Buffer} - 密钥
+ */
+export function resolveKey(key: EncryptionKey | EncryptionKeyProvider): Buffer {
+  const value = typeof key === 'function' ? key() : key;
+  let buffer: Buffer | undefined;
+  if (Buffer.isBuffer(value)) {
+    buffer = value;
+  } else if (typeof value === 'string') {
+    buffer = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  }
+
+  if (!buffer || buffer.length !== KEY_LENGTH) {
+    throw new Error(`Encryption key must be ${KEY_LENGTH} bytes: a Buffer, or a hex or base64 string.`);
+  }
+  return buffer;
+}
+
+/**
+ * 用 AES-256-GCM 加密值的 JSON 序列化结果
+ * @param {any} value - 要加密的值
+ * @param {Buffer} key - 密钥
+ * @param {string} [aad] - 附加认证数据，解密时必须相同
+ * @returns {EncryptedValue} - 加密后的值
+ */
+export function encryptValue(value: any, key: Buffer, aad?: string): EncryptedValue {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  if (aad !== undefined) {
+    cipher.setAAD(Buffer.from(aad, 'utf8'));
+  }
+  const data = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+  return {
+    $encrypted: {
+      alg: ALGORITHM,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    }
+  };
+}
+
+/**
+ * 解密并校验加密的值，密钥错误、内容被篡改或附加认证数据不符时抛出错误
+ * @param {EncryptedValue} value - 加密后的值
+ * @param {Buffer} key - 密钥
+ * @param {string} source - 值的来源，用于错误信息
+ * @param {string} [aad] - 加密时使用的附加认证数据
+ * @returns {any} - 原始值
+ */
+export function decryptValue(value: EncryptedValue, key: Buffer, source: string, aad?: string): any {
+  const { alg, iv, tag, data } = value.$encrypted;
+  if (alg !== ALGORITHM) {
+    throw new Error(`Unsupported encryption algorithm "${alg}" in ${source}.`);
+  }
+
+  let plaintext: string;
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+    if (aad !== undefined) {
+      decipher.setAAD(Buffer.from(aad, 'utf8'));
+    }
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    plaintext = Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new Error(`Unable to decrypt ${source}: the encryption key is wrong or the data has been tampered with.`);
+  }
+  return JSON.parse(plaintext);
+}
+
+/**
+ * 判断值是否为加密后的值
+ * @param {any} value - 值
+ * @returns {boolean} - 是否加密
+ */
+export function isEncryptedValue(value: any): value is EncryptedValue {
+  return _.isPlainObject(value) && Object.keys(value).length === 1 && _.isPlainObject(value.$encrypted);
+}
+
+/**
+ * 替换字段路径上的值，只复制路径经过的对象和数组，原数据保持不变
+ * 路径经过数组且下一段不是下标时作用于每个元素，例如 users.token 对应每条用户记录的 token
+ * @param {any} value - 数据
+ * @param {string[]} segments - 字段路径
+ * @param {function} transform - 替换函数，第二个参数为值的实际路径（包含数组下标）
+ * @param {string[]} [path] - value 本身的实际路径
+ * @returns {any} - 替换后的数据
+ */
+export function mapPath(value: any, segments: string[], transform: (value: any, path: string[]) => any, path: string[] = []): any {
+  if (segments.length === 0) {
+    return value === undefined ? value : transform(value, path);
+  }
+  if (Array.isArray(value) && !/^\d+$/.test(segments[0])) {
+    return value.map((item, i) => mapPath(item, segments, transform, [...path, String(i)]));
+  }
+  if (!_.isObject(value) || !_.has(value, segments[0])) {
+    return value;
+  }
+
+  const [head, ...rest] = segments;
+  const copy: any = Array.isArray(value) ? value.slice() : { ...value };
+  copy[head] = mapPath(value[head], rest, transform, [...path, head]);
+  return copy;
+}
@@ -0,0 +1,136 @@
+import { ValidationIssue } from './types';
+
+/**
+ * 违反唯一索引约束时抛出的错误
+ */
+export class UniqueConstraintError extends Error {
+  /**
+   * 集合路径
+   */
+  readonly collection: string;
+
+  /**
+   * 唯一索引字段
+   */
+  readonly field: string;
+
+  /**
+   * 冲突的字段值
+   */
+  readonly value: any;
+
+  constructor(collection: string, field: string, value: any) {
+    super(`Unique constraint violated on "${collection}.${field}": duplicate value ${JSON.stringify(value)}`);
+    this.name = 'UniqueConstraintError';
+    this.collection = collection;
+    this.field = field;
+    this.value = value;
+  }
+}
+
+/**
+ * 数据库文件已被其他实例锁定时抛出的错误
+ */
+export class DatabaseLockedError extends Error {
+  /**
+   * 数据库文件路径
+   */
+  readonly filePath: string;
+
+  /**
+   * 锁文件路径
+   */
+  readonly lockPath: string;
+
+  /**
+   * 持有锁的进程 ID，无法读取锁文件时为 undefined
+   */
+  readonly pid: number | undefined;
+
+  constructor(filePath: string, lockPath: string, pid: number | undefined) {
+    super(`Database "${filePath}" is locked by ${pid !== undefined ? `process ${pid}` : 'another process'} (${lockPath})`);
+    this.name = 'DatabaseLockedError';
+    this.filePath = filePath;
+    this.lockPath = lockPath;
+    this.pid = pid;
+  }
+}
+
+/**
+ * 写入的数据不符合结构定义时抛出的错误
+ */
+export class ValidationError extends Error {
+  /**
+   * 写入的路径
+   */
+  readonly key: string;
+
+  /**
+   * 所有校验失败的位置
+   */
+  readonly errors: ValidationIssue[];
+
+  constructor(key: string, errors: ValidationIssue[]) {
+    super(`Validation failed for "${key}": ${errors.map(error => `${error.path} ${error.message}`).join('; ')}`);
+    this.name = 'ValidationError';
+    this.key = key;
+    this.errors = errors;
+  }
+}
+
+/**
+ * 数据文件的版本比最新的迁移更新时抛出的错误
+ */
+export class SchemaVersionError extends Error {
+  /**
+   * 数据库文件路径
+   */
+  readonly filePath: string;
+
+  /**
+   * 数据文件中的版本
+   */
+  readonly version: number;
+
+  /**
+   * 代码中最新迁移的版本
+   */
+  readonly latestVersion: number;
+
+  constructor(filePath: string, version: number, latestVersion: number) {
+    super(`Database "${filePath}" has schema version ${version}, which is newer than the latest migration (${latestVersion})`);
+    this.name = 'SchemaVersionError';
+    this.filePath = filePath;
+    this.version = version;
+    this.latestVersion = latestVersion;
+  }
+}
+
+/**
+ * 迁移失败时抛出的错误，此时所有待执行的迁移都已回滚
+ */
+export class MigrationError extends Error {
+  /**
+   * 失败的迁移对应的版本
+   */
+  readonly version: number;
+
+  /**
+   * 失败的迁移名称
+   */
+  readonly migration: string | undefined;
+
+  /**
+   * 迁移抛出的原始错误
+   */
+  readonly cause: unknown;
+
+  constructor(version: number, migration: string | undefined, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Migration ${version}${migration ? ` "${migration}"` : ''} failed: ${reason}`);
+    this.name = 'MigrationError';
+    this.version = version;
+    this.migration = migration;
+    this.cause = cause;
+  }
+}
@@ -1,9 +1,12 @@
-import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
 import * as _ from 'lodash';
 import { 
   AnyValue, 
   PredicateFunction, 
   UpdaterObject, 
+  UpdateOperators,
   DbOptions, 
   IndexDefinition, 
   IndexType, 
@@ -16,594 +19,3536 @@ import {
   PaginationResult,
   AggregationOption,
   AggregationResult,
-  AggregationType
+  AggregationType,
+  RecoveryInfo,
+  SortedIndex,
+  SortedIndexEntry,
+  WhereCondition,
+  FieldCondition,
+  FieldOperators,
+  IdStrategy,
+  PrimaryKeyOptions,
+  JournalEntry,
+  LockOptions,
+  WatchOptions,
+  ReloadEvent,
+  ChangeEvent,
+  ChangeType,
+  JsonSchema,
+  SchemaDefinition,
+  ValidationOptions,
+  ValidationIssue,
+  Migration,
+  EncryptionKey,
+  EncryptionKeyProvider,
+  StorageAdapter,
+  StorageEntry,
+  TransferFormat,
+  ImportSource,
+  ImportOptions,
+  ImportResult,
+  ExportOptions,
+  SnapshotOptions,
+  SnapshotInfo
 } from './types';
+import { UniqueConstraintError, DatabaseLockedError, ValidationError, SchemaVersionError, MigrationError } from './errors';
+import { toJsonSchema, getSubSchema, validateValue } from './schema';
+import { resolveKey, encryptValue, decryptValue, isEncryptedValue, mapPath } from './encryption';
+import { FileStorageAdapter, GzipFileStorageAdapter, DirectoryStorageAdapter, MemoryStorageAdapter } from './storage';
+import { readRecords, formatRecords, ParsedRecord } from './transfer';
+import { createSnapshotPath, listSnapshots } from './snapshot';
+import { Collection } from './collection';
+import { NodedbJsonAsync } from './async';
+
+/**
+ * batch 支持的操作
+ */
+const BATCH_METHODS = [
+  'set', 'update', 'delete', 'push',
+  'insertOne', 'insertMany', 'updateMany', 'deleteMany',
+  'createIndex', 'dropIndex'
+];
+
+/**
+ * 等待防抖保存的实例，进程退出时统一写入
+ */
+const pendingAutoSaves = new Set<NodedbJson>();
+
+/**
+ * 持有文件锁的实例，进程退出时释放
+ */
+const lockHolders = new Set<NodedbJson>();
+let exitHandlersInstalled = false;
+
+/**
+ * 执行退出时的保存或关闭，失败时报告警告
+ * @param {function} action - 保存或关闭操作
+ */
+function runExitAction(action: () => void): void {
+  try {
+    action();
+  } catch (error) {
+    process.emitWarning(
+      `Saving a database on exit failed (${(error as Error).message}); its unsaved changes are lost.`,
+      'NodedbJsonExitWarning'
+    );
+  }
+}
+
+/**
+ * 注册进程退出和终止信号的处理器，写入所有等待防抖保存的实例并释放文件锁
+ */
+function installExitHandlers(): void {
+  if (exitHandlersInstalled) {
+    return;
+  }
+  exitHandlersInstalled = true;
+  
+  // 每个实例单独处理，一个实例写入失败时其余实例仍会保存并释放文件锁
+  const cleanup = () => {
+    pendingAutoSaves.forEach(db => runExitAction(() => db.save()));
+    lockHolders.forEach(db => runExitAction(() => db.close()));
+  };
+  process.on('exit', cleanup);
+  
+  (['SIGINT', 'SIGTERM', 'SIGHUP'] as NodeJS.Signals[]).forEach(signal => {
+    const handler = () => {
+      cleanup();
+      // 没有其他监听器时恢复默认行为，以相同信号结束进程
+      if (process.listenerCount(signal) === 1) {
+        process.removeListener(signal, handler);
+        process.kill(process.pid, signal);
+      }
+    };
+    process.on(signal, handler);
+  });
+}
 
 /**
  * A class to manage JSON-based database operations.
  */
-class NodedbJson {
+class NodedbJson extends EventEmitter {
   private filePath: string;
+  private storage: StorageAdapter;
   private data: Record<string, any>;
   private options: DbOptions;
-  private _pendingChanges: number = 0;
+  private _pendingChanges: Record<string, number> = {};
   private _indexes: IndexStore = {};
+  private _arrayValuedItems: Record<string, Set<any>> = {};
   private _indexDefinitions: Record<string, Record<string, IndexDefinition>> = {};
+  private _skipNextBackup: boolean = false;
+  private _skipBackupKeys = new Set<string>();
+  private _unloadedKeys = new Set<string>();
+  private _idCounters: Record<string, number> = {};
+  private _inTransaction: boolean = false;
+  private _flushing: Promise<void> | null = null;
+  private _autoSaveTimer: NodeJS.Timeout | null = null;
+  private _journalBuffer: string[] = [];
+  private _journalEntries: number = 0;
+  private _journalBase: string = '';
+  private _lockHeld: boolean = false;
+  private _journalExists: boolean = false;
+  private _closed: boolean = false;
+  private _snapshotHash: string | null = null;
+  private _stopWatch: (() => void) | null = null;
+  private _transactionEvents: ChangeEvent[] = [];
+  private _schemas: Record<string, { schema: JsonSchema; options: ValidationOptions }> = {};
+  private _queuedFlush: Promise<void> | null = null;
   
   /**
    * Creates an instance of NodedbJson.
-   * @param {string} filePath - The path to the JSON file.
+   * @param {string|StorageAdapter} filePathOrStorage - The path to the JSON file (a directory in multi-file mode), or a storage adapter.
    * @param {DbOptions} [options] - Database options.
    */
-  constructor(filePath: string, options: DbOptions = {}) {
-    this.filePath = filePath;
+  constructor(filePathOrStorage: string | StorageAdapter, options: DbOptions = {}) {
+    super();
+    if (typeof filePathOrStorage === 'string') {
+      this.storage = options.multiFile ? new DirectoryStorageAdapter(filePathOrStorage) : new FileStorageAdapter(filePathOrStorage);
+    } else {
+      this.storage = filePathOrStorage;
+    }
+    this.filePath = this.storage.location;
     this.options = {
       autoSave: true,
       createIfNotExists: true,
       defaultValue: {},
       enableIndexing: true,
       autoIndex: true,
+      persistIndexes: true,
+      backup: false,
+      readOnly: false,
       ...options
     };
-    this.data = this.readJSONFile();
+    
+    if (this.options.lock && !this.options.readOnly && !this.storage.lock) {
+      throw new Error(`Storage "${this.filePath}" does not support locking.`);
+    }
+    if (this.options.watch && !this.storage.watch) {
+      throw new Error(`Storage "${this.filePath}" does not support watching.`);
+    }
+    if (this.options.multiFile) {
+      if (!this.storage.listKeys || !this.storage.forKey) {
+        throw new Error(`Storage "${this.filePath}" does not support multi-file mode.`);
+      }
+      if (this.options.journal || this.options.watch) {
+        throw new Error('The journal and watch options are not supported in multi-file mode.');
+      }
+    }
+    
+    // 只读模式不获取写锁
+    if (this.options.lock && !this.options.readOnly) {
+      this._acquireLock();
+    }
+    
+    try {
+      this.data = this.options.multiFile ? this._openKeyFiles() : this.readJSONFile();
+    } catch (error) {
+      this._releaseLock();
+      throw error;
+    }
+    
+    // 未启用预写日志时，把残留日志中的修改写回数据文件
+    if (!this.options.journal && !this.options.readOnly && this._journalExists) {
+      if (this._journalEntries > 0) {
+        this.writeJSONFile();
+      }
+      this.storage.remove('journal');
+      this._journalExists = false;
+      this._journalEntries = 0;
+    }
+    
+    // 恢复持久化的索引定义
+    if (this.options.enableIndexing && this.options.persistIndexes) {
+      this._loadIndexDefinitions();
+    }
     
     // 自动创建索引
     if (this.options.enableIndexing && this.options.autoIndex) {
       this._rebuildAllIndexes();
     }
+    
+    _.forEach(this.options.schemas, (schema, key) => this.registerSchema(key, schema));
+    
+    if (this.options.migrations) {
+      try {
+        this._runMigrations(this.options.migrations);
+      } catch (error) {
+        this._releaseLock();
+        throw error;
+      }
+    }
+    
+    if (this.options.watch) {
+      this._startWatching();
+    }
   }
 
   /**
-   * Reads the JSON file.
+   * Reads the JSON file, falling back to the .bak copy if the primary file is corrupt.
    * @returns {object} - The parsed JSON data.
    */
   private readJSONFile(): Record<string, any> {
-    if (!fs.existsSync(this.filePath)) {
-      if (this.options.createIfNotExists) {
-        fs.writeFileSync(this.filePath, JSON.stringify(this.options.defaultValue || {}), "utf-8");
+    let content = this.storage.read('data');
+    if (content === undefined) {
+      if (this.options.createIfNotExists && !this.options.readOnly) {
+        content = this._serialize(this.options.defaultValue || {});
+        this.storage.write('data', content);
       } else {
         throw new Error(`Database file does not exist: ${this.filePath}`);
       }
     }
-    const fileData = fs.readFileSync(this.filePath, "utf-8");
-    return JSON.parse(fileData);
+    
+    try {
+      const data = this._replayJournal(this._parseContent(content), content);
+      this._rememberSnapshot(content);
+      return data;
+    } catch (error) {
+      const backup = this.storage.read('backup');
+      if (backup === undefined) {
+        throw error;
+      }
+      
+      // 主文件损坏，从备份恢复；备份也无法解析时抛出原始错误
+      let recovered: Record<string, any>;
+      try {
+        recovered = this._parseContent(backup);
+      } catch {
+        throw error;
+      }
+      
+      // 日志基于主文件，不能重放到备份上
+      // 启用日志时立即把备份写回主文件并开始新的日志：否则新日志基于损坏的主文件，重启后再次从备份恢复时无法重放
+      // 未启用日志时，损坏的主文件不能在下次保存时覆盖掉完好的备份
+      if (this.options.journal && !this.options.readOnly) {
+        this._rememberSnapshot(backup);
+        this.storage.write('data', backup);
+        this._writeJournalHeader(backup);
+      } else {
+        this._skipNextBackup = true;
+      }
+      this._reportRecovery({ filePath: this.filePath, backupPath: this._locate('backup'), error: error as Error });
+      return recovered;
+    }
   }
 
   /**
-   * Writes the JSON data to the file.
+   * Writes the JSON data to the file atomically.
    */
   private writeJSONFile(): void {
-    fs.writeFileSync(this.filePath, JSON.stringify(this.data, null, 2), "utf-8");
-    this._pendingChanges = 0;
+    this._cancelAutoSave();
+    if (this.options.multiFile) {
+      this._writeKeyFiles(Object.keys(this._pendingChanges));
+      this._pendingChanges = {};
+      return;
+    }
+    
+    if (this.options.backup && !this._skipNextBackup) {
+      const previous = this.storage.read('data');
+      if (previous !== undefined) {
+        this.storage.write('backup', previous);
+      }
+    }
+    this._skipNextBackup = false;
+    
+    const content = this._serialize(this.data);
+    this._rememberSnapshot(content);
+    this.storage.write('data', content);
+    
+    // 数据文件已包含全部修改，用基于新快照的空日志替换旧日志
+    if (this.options.journal) {
+      this._writeJournalHeader(content);
+    }
+    this._journalBuffer = [];
+    this._pendingChanges = {};
   }
 
   /**
-   * Manually save changes to file.
-   * @returns {NodedbJson} - The instance of the database for chaining.
+   * 异步原子写入数据文件，序列化时的数据即为写入的内容
    */
-  save(): NodedbJson {
-    if (this._pendingChanges > 0) {
-      this.writeJSONFile();
+  private async writeJSONFileAsync(): Promise<void> {
+    this._cancelAutoSave();
+    if (this.options.multiFile) {
+      const pending = this._pendingChanges;
+      this._pendingChanges = {};
+      try {
+        await this._writeKeyFilesAsync(Object.keys(pending));
+      } catch (error) {
+        this._restorePendingChanges(pending);
+        throw error;
+      }
+      return;
+    }
+    
+    const content = this._serialize(this.data);
+    const changes = this._pendingChanges;
+    const entries = this._journalBuffer;
+    this._pendingChanges = {};
+    this._journalBuffer = [];
+    
+    try {
+      if (this.options.backup && !this._skipNextBackup) {
+        const previous = await this._readStorageAsync('data');
+        if (previous !== undefined) {
+          await this._writeStorageAsync('backup', previous);
+        }
+      }
+      this._skipNextBackup = false;
+      
+      this._rememberSnapshot(content);
+      await this._writeStorageAsync('data', content);
+      if (this.options.journal) {
+        await this._writeJournalHeaderAsync(content);
+      }
+    } catch (error) {
+      // 写入失败时保留未保存的修改，下次保存时重试
+      this._restorePendingChanges(changes);
+      this._journalBuffer = entries.concat(this._journalBuffer);
+      throw error;
     }
-    return this;
   }
 
   /**
-   * Sets a value in the JSON data.
-   * @param {string} key - The key to set.
-   * @param {any} value - The value to set.
-   * @returns {NodedbJson} - The instance of the database for chaining.
+   * 多文件模式下打开数据目录：只记录已保存的顶层键，首次访问时再读取；目录不存在时按默认值创建
+   * @returns {object} - 初始数据
    */
-  set(key: string, value: AnyValue): NodedbJson {
-    // 检查是否需要更新索引
-    const oldValue = _.get(this.data, key);
-    const needsIndexUpdate = this.options.enableIndexing && 
-      (Array.isArray(oldValue) || Array.isArray(value)) && 
-      this._hasIndexDefinition(key);
-    
-    _.set(this.data, key, value);
-    this._pendingChanges++;
-    
-    // 如果修改了带索引的数组，重建索引
-    if (needsIndexUpdate) {
-      this._rebuildIndexesForKey(key);
+  private _openKeyFiles(): Record<string, any> {
+    const keys = (this.storage.listKeys as NonNullable<StorageAdapter['listKeys']>).call(this.storage);
+    if (keys !== undefined) {
+      this._unloadedKeys = new Set(keys);
+      return {};
     }
     
-    if (this.options.autoSave) {
-      this.writeJSONFile();
+    if (!this.options.createIfNotExists || this.options.readOnly) {
+      throw new Error(`Database directory does not exist: ${this.filePath}`);
     }
-    return this;
+    const data = _.cloneDeep(this.options.defaultValue || {});
+    _.forEach(data, (value, key) => this._getKeyStorage(key).write('data', this._serialize(value, [key])));
+    return data;
   }
-
+  
   /**
-   * Gets a value from the JSON data.
-   * @param {string} key - The key to get.
-   * @returns {any} - The value.
+   * 获取多文件模式下保存顶层键的存储
+   * @param {string} key - 顶层键
+   * @returns {StorageAdapter} - 存储
    */
-  get(key: string): AnyValue {
-    return _.get(this.data, key);
+  private _getKeyStorage(key: string): StorageAdapter {
+    return (this.storage.forKey as NonNullable<StorageAdapter['forKey']>).call(this.storage, key);
   }
-
+  
   /**
-   * Checks if a key exists in the JSON data.
-   * @param {string} key - The key to check.
-   * @returns {boolean} - True if the key exists, otherwise false.
+   * 多文件模式下加载路径所在的顶层键；键的文件损坏时从备份恢复
+   * @param {string} key - 路径
    */
-  has(key: string): boolean {
-    return _.has(this.data, key);
+  private _ensureLoaded(key: string): void {
+    if (this._unloadedKeys.size === 0) {
+      return;
+    }
+    const topKey = this._getTopKey(key);
+    if (!this._unloadedKeys.has(topKey)) {
+      return;
+    }
+    
+    const storage = this._getKeyStorage(topKey);
+    const content = storage.read('data');
+    if (content !== undefined) {
+      try {
+        this.data[topKey] = this._parseContent(content, [topKey]);
+      } catch (error) {
+        const backup = storage.read('backup');
+        if (backup === undefined) {
+          throw error;
+        }
+        try {
+          this.data[topKey] = this._parseContent(backup, [topKey]);
+        } catch {
+          throw error;
+        }
+        
+        // 损坏的文件不能覆盖掉完好的备份
+        this._skipBackupKeys.add(topKey);
+        const backupPath = storage.locate ? storage.locate('backup') : `${storage.location} (backup)`;
+        this._reportRecovery({ filePath: storage.location, backupPath, error: error as Error });
+      }
+    }
+    this._unloadedKeys.delete(topKey);
   }
-
+  
   /**
-   * Updates a value in the JSON data.
-   * @param {string} key - The key to update.
-   * @param {function|object} predicateOrUpdater - The predicate function or updater object.
-   * @param {object} [updater] - The updater object if a predicate function is provided.
-   * @returns {NodedbJson} - The instance of the database for chaining.
+   * 把顶层键的值序列化为文件内容，键已删除时返回 undefined
+   * @param {string} key - 顶层键
+   * @returns {string | undefined} - 文件内容
    */
-  update<T>(key: string, predicateOrUpdater: PredicateFunction<T> | UpdaterObject, updater?: UpdaterObject): NodedbJson {
-    const data = this.get(key);
-    if (Array.isArray(data)) {
-      // 如果使用索引进行更新
-      if (typeof predicateOrUpdater === 'object' && 
-          this.options.enableIndexing && 
-          this._hasIndexDefinition(key)) {
-        
-        // 尝试使用索引查找
-        const foundIndex = this._findIndexedItemPosition(key, predicateOrUpdater);
-        if (foundIndex !== -1) {
-          _.merge(data[foundIndex], updater);
-          this._pendingChanges++;
-          // 更新索引
-          this._rebuildIndexesForKey(key);
-        } else {
-          throw new Error(`No item found matching the predicate.`);
+  private _serializeKey(key: string): string | undefined {
+    const value = _.has(this.data, [key]) ? this.data[key] : undefined;
+    return value === undefined ? undefined : this._serialize(value, [key]);
+  }
+  
+  /**
+   * 多文件模式下写入顶层键的文件，已删除的键删除其文件
+   * @param {string[]} keys - 顶层键
+   */
+  private _writeKeyFiles(keys: string[]): void {
+    keys.forEach(key => {
+      const storage = this._getKeyStorage(key);
+      if (this.options.backup && !this._skipBackupKeys.has(key)) {
+        const previous = storage.read('data');
+        if (previous !== undefined) {
+          storage.write('backup', previous);
         }
+      }
+      this._skipBackupKeys.delete(key);
+      
+      const content = this._serializeKey(key);
+      if (content === undefined) {
+        storage.remove('data');
       } else {
-        // 常规查找
-        const item = _.find(data, predicateOrUpdater as PredicateFunction<T>);
-        if (item && updater) {
-          _.merge(item, updater);
-          this._pendingChanges++;
-          
-          // 如果有索引，需要更新
-          if (this.options.enableIndexing && this._hasIndexDefinition(key)) {
-            this._rebuildIndexesForKey(key);
-          }
-        } else if (!item) {
-          throw new Error(`No item found matching the predicate.`);
+        storage.write('data', content);
+      }
+    });
+  }
+  
+  /**
+   * 异步写入顶层键的文件，调用时的数据即为写入的内容
+   * @param {string[]} keys - 顶层键
+   */
+  private async _writeKeyFilesAsync(keys: string[]): Promise<void> {
+    const contents = keys.map(key => this._serializeKey(key));
+    for (let i = 0; i < keys.length; i++) {
+      const storage = this._getKeyStorage(keys[i]);
+      if (this.options.backup && !this._skipBackupKeys.has(keys[i])) {
+        const previous = await this._readStorageAsync('data', storage);
+        if (previous !== undefined) {
+          await this._writeStorageAsync('backup', previous, storage);
         }
       }
-    } else if (_.isObject(data)) {
-      _.update(this.data, key, predicateOrUpdater as any);
-      this._pendingChanges++;
-    } else {
-      throw new Error(`Key "${key}" does not reference a collection or array.`);
-    }
-    
-    if (this.options.autoSave) {
-      this.writeJSONFile();
+      this._skipBackupKeys.delete(keys[i]);
+      
+      const content = contents[i];
+      if (content === undefined) {
+        storage.remove('data');
+      } else {
+        await this._writeStorageAsync('data', content, storage);
+      }
     }
-    return this;
+  }
+  
+  /**
+   * 获取路径所在的顶层键
+   * @param {string} key - 路径
+   * @returns {string} - 顶层键
+   */
+  private _getTopKey(key: string): string {
+    return _.toPath(key)[0] || key;
+  }
+  
+  /**
+   * 记录顶层键有未保存的修改
+   * @param {string} key - 修改的路径
+   * @param {number} [count=1] - 修改次数
+   */
+  private _markChanged(key: string, count: number = 1): void {
+    const topKey = this._getTopKey(key);
+    this._pendingChanges[topKey] = (this._pendingChanges[topKey] || 0) + count;
+  }
+  
+  /**
+   * 写入失败后把未保存的修改合并回来
+   * @param {object} changes - 各顶层键未保存的修改次数
+   */
+  private _restorePendingChanges(changes: Record<string, number>): void {
+    _.forEach(changes, (count, key) => this._markChanged(key, count));
+  }
+  
+  /**
+   * 统计未保存的修改次数
+   * @returns {number} - 修改次数
+   */
+  private _countPendingChanges(): number {
+    return _.sum(Object.values(this._pendingChanges));
   }
 
   /**
-   * Deletes a value from the JSON data.
-   * @param {string} key - The key to delete.
-   * @param {function|string[]} [predicateOrKeys] - The predicate function or array of keys to delete.
-   * @param {string} [field='id'] - The field to match for array deletion.
-   * @returns {NodedbJson} - The instance of the database for chaining.
+   * 把数据序列化为文件内容；启用加密时加密整个文档，或只加密指定字段
+   * @param {any} data - 数据
+   * @param {string[]} [prefix] - 多文件模式下数据在整个文档中的路径，用于匹配要加密的字段
+   * @returns {string} - 文件内容
    */
-  delete<T>(key: string, predicateOrKeys?: PredicateFunction<T> | string[], field: string = 'id'): NodedbJson {
-    const data = this.get(key);
-    const hasIndex = this.options.enableIndexing && this._hasIndexDefinition(key);
+  private _serialize(data: any, prefix: string[] = []): string {
+    const encryption = this.options.encryption;
+    if (!encryption) {
+      return JSON.stringify(data, null, 2);
+    }
     
-    if (Array.isArray(data)) {
-      if (typeof predicateOrKeys === 'function') {
-        _.remove(data, predicateOrKeys as PredicateFunction<T>);
-      } else if (Array.isArray(predicateOrKeys)) {
-        // 如果有索引，尝试使用索引删除
-        if (hasIndex && this._hasIndexOnField(key, field)) {
-          for (const fieldValue of predicateOrKeys) {
-            const index = this._getItemIndexByField(key, field, fieldValue);
-            if (index !== -1) {
-              data.splice(index, 1);
-            }
-          }
-        } else {
-          _.remove(data, (item: any) => predicateOrKeys.includes(item[field]));
-        }
-      } else {
-        throw new Error(`Predicate or keys array must be provided for array deletion.`);
+    const key = resolveKey(encryption.key);
+    if (!encryption.fields) {
+      return JSON.stringify(encryptValue(data, key));
+    }
+    const encrypted = this._mapEncryptedFields(encryption.fields, data, prefix, (value, path) => encryptValue(value, key, path));
+    return JSON.stringify(encrypted, null, 2);
+  }
+  
+  /**
+   * 替换要加密的字段上的值
+   * @param {string[]} fields - 要加密的字段路径
+   * @param {any} data - 数据
+   * @param {string[]} prefix - 多文件模式下数据在整个文档中的路径
+   * @param {function} transform - 替换函数，第二个参数为值在整个文档中的实际路径（包含数组下标）
+   * @returns {any} - 替换后的数据
+   */
+  private _mapEncryptedFields(fields: string[], data: any, prefix: string[], transform: (value: any, path: string) => any): any {
+    return fields.reduce((result, field) => {
+      const segments = _.toPath(field);
+      if (!_.isEqual(segments.slice(0, prefix.length), prefix)) {
+        return result;
       }
-    } else if (this.has(key)) {
-      if (Array.isArray(predicateOrKeys)) {
-        predicateOrKeys.forEach(itemKey => {
-          _.unset(this.data[key], itemKey);
-        });
-      } else {
-        _.unset(this.data, key);
+      return mapPath(result, segments.slice(prefix.length), (value, path) => transform(value, [...prefix, ...path].join('.')));
+    }, data);
+  }
+  
+  /**
+   * 解析文件内容，启用加密时解密并校验
+   * @param {string} content - 文件内容
+   * @param {string[]} [prefix] - 多文件模式下内容在整个文档中的路径
+   * @returns {object} - 数据
+   */
+  private _parseContent(content: string, prefix: string[] = []): Record<string, any> {
+    return this._decryptData(JSON.parse(content), prefix);
+  }
+  
+  /**
+   * 解密解析后的文件内容，拒绝被替换为明文的内容：加密整个文档时整个文件必须是密文，只加密字段时每个字段都必须是密文
+   * 字段密文以字段的实际路径作为附加认证数据，从其他记录或字段复制来的密文无法通过校验
+   * @param {object} parsed - 解析后的文件内容
+   * @param {string[]} [prefix] - 多文件模式下内容在整个文档中的路径
+   * @returns {object} - 数据
+   */
+  private _decryptData(parsed: Record<string, any>, prefix: string[] = []): Record<string, any> {
+    const encryption = this.options.encryption;
+    if (!encryption) {
+      if (isEncryptedValue(parsed)) {
+        throw new Error(`Database file "${this.filePath}" is encrypted but no encryption key was provided.`);
       }
-    } else {
-      throw new Error(`Key "${key}" does not exist.`);
+      return parsed;
     }
     
-    // 如果有索引，更新索引
-    if (hasIndex) {
-      this._rebuildIndexesForKey(key);
+    const key = resolveKey(encryption.key);
+    const source = `"${this.filePath}"`;
+    if (!encryption.fields) {
+      if (isEncryptedValue(parsed)) {
+        return decryptValue(parsed, key, source);
+      }
+      throw new Error(`Database file "${this.filePath}" is not encrypted; open it without encryption and call rotateEncryptionKey() to encrypt it.`);
     }
     
-    this._pendingChanges++;
-    if (this.options.autoSave) {
-      this.writeJSONFile();
+    const data = this._mapEncryptedFields(encryption.fields, parsed, prefix, (value, path) => {
+      if (!isEncryptedValue(value)) {
+        throw new Error(`Field "${path}" in database file "${this.filePath}" is not encrypted.`);
+      }
+      return decryptValue(value, key, `field "${path}" in ${source}`, path);
+    });
+    if (isEncryptedValue(data)) {
+      throw new Error(`Database file "${this.filePath}" is encrypted as a whole, but encryption.fields is set.`);
     }
-    return this;
+    return data;
   }
-
+  
   /**
-   * Finds a value in the JSON data.
-   * @param {string} key - The key to find.
-   * @param {function} predicate - The predicate function to match.
-   * @returns {any} - The found value.
+   * 保存未写入的修改：启用预写日志时追加到日志，否则重写数据文件
    */
-  find<T>(key: string, predicate: PredicateFunction<T>): T | undefined {
-    const data = this.get(key);
-    if (Array.isArray(data)) {
-      return _.find(data, predicate);
-    } else if (_.isObject(data)) {
-      return _.find(Object.values(data), predicate);
+  private _persist(): void {
+    if (this.options.journal) {
+      this._appendJournal();
     } else {
-      throw new Error(`Key "${key}" does not reference a collection or array.`);
+      this.writeJSONFile();
     }
   }
 
   /**
-   * Finds a value by field and value using index if available.
-   * @param {string} key - The key to find.
-   * @param {string} field - The field to match.
-   * @param {any} value - The value to match.
-   * @returns {any} - The found value.
+   * 记录一条修改到日志缓冲区，保存时统一追加到日志文件
+   * 记录时立即序列化，之后对记录的原地修改不会影响日志内容
+   * @param {JournalEntry} entry - 日志记录
    */
-  findByField<T>(key: string, field: string, value: any): T | undefined {
-    const data = this.get(key);
-    
-    if (!Array.isArray(data)) {
-      throw new Error(`Key "${key}" does not reference an array.`);
+  private _recordJournal(entry: JournalEntry): void {
+    if (this.options.journal) {
+      this._journalBuffer.push(JSON.stringify(entry));
     }
-    
-    // 使用索引进行查找
-    if (this.options.enableIndexing && this._hasIndexOnField(key, field)) {
-      const index = this._getItemIndexByField(key, field, value);
-      return index !== -1 ? data[index] as T : undefined;
-    } 
-    
-    // 常规查找
-    return _.find(data, item => item[field] === value);
   }
 
   /**
-   * Filters values in the JSON data.
-   * @param {string} key - The key to filter.
-   * @param {function} predicate - The predicate function to match.
-   * @returns {any[]} - The filtered values.
+   * 生成追加到日志文件的内容；日志记录包含完整的值，启用加密时逐条加密
+   * 附加认证数据是日志头的快照哈希和记录的行号，删除、重排或移到其他日志中的记录无法解密
+   * @param {string[]} entries - 序列化的日志记录
+   * @param {number} offset - 第一条记录之前已有的记录数
+   * @returns {string} - 日志内容
    */
-  filter<T>(key: string, predicate: PredicateFunction<T>): T[] {
-    const data = this.get(key);
-    if (Array.isArray(data)) {
-      return _.filter(data, predicate);
-    } else if (_.isObject(data)) {
-      return _.filter(Object.values(data), predicate);
-    } else {
-      throw new Error(`Key "${key}" does not reference a collection or array.`);
+  private _formatJournalEntries(entries: string[], offset: number): string {
+    const encryption = this.options.encryption;
+    if (encryption) {
+      const key = resolveKey(encryption.key);
+      entries = entries.map((entry, i) => JSON.stringify(encryptValue(JSON.parse(entry), key, this._getJournalAad(offset + i + 1))));
     }
+    return entries.join('\n') + '\n';
   }
-  
+
   /**
-   * Filters values by field and possible values using index if available.
-   * @param {string} key - The key to filter.
-   * @param {string} field - The field to match.
-   * @param {any[]} values - The values to match.
-   * @returns {any[]} - The filtered values.
+   * 获取加密日志记录的附加认证数据
+   * @param {number} sequence - 记录的序号，从 1 开始
+   * @returns {string} - 附加认证数据
    */
-  filterByField<T>(key: string, field: string, values: any[]): T[] {
-    const data = this.get(key);
+  private _getJournalAad(sequence: number): string {
+    return `${this._journalBase}:${sequence}`;
+  }
+
+  /**
+   * 把缓冲的日志记录追加到日志文件并 fsync，日志过长时压缩
+   */
+  private _appendJournal(): void {
+    this._cancelAutoSave();
+    if (this._journalBuffer.length > 0) {
+      if (!this._journalExists) {
+        this._writeJournalHeader(this.storage.read('data') || '');
+      }
+      
+      const content = this._formatJournalEntries(this._journalBuffer, this._journalEntries);
+      if (this.storage.append) {
+        this.storage.append('journal', content);
+      } else {
+        this.storage.write('journal', (this.storage.read('journal') || '') + content);
+      }
+      this._journalEntries += this._journalBuffer.length;
+      this._journalBuffer = [];
+    }
+    this._pendingChanges = {};
     
-    if (!Array.isArray(data)) {
-      throw new Error(`Key "${key}" does not reference an array.`);
+    if (this._journalEntries >= this._getJournalMaxEntries()) {
+      this.writeJSONFile();
     }
+  }
+
+  /**
+   * 异步追加缓冲的日志记录，日志过长时异步压缩
+   */
+  private async _appendJournalAsync(): Promise<void> {
+    this._cancelAutoSave();
+    const entries = this._journalBuffer;
+    const changes = this._pendingChanges;
+    this._journalBuffer = [];
+    this._pendingChanges = {};
     
-    // 使用索引进行过滤
-    if (this.options.enableIndexing && this._hasIndexOnField(key, field)) {
-      const result: T[] = [];
-      
-      for (const value of values) {
-        const indexes = this._getItemIndexesByField(key, field, value);
-        for (const index of indexes) {
-          result.push(data[index] as T);
+    if (entries.length > 0) {
+      try {
+        if (!this._journalExists) {
+          const snapshot = await this._readStorageAsync('data');
+          await this._writeJournalHeaderAsync(snapshot || '');
+        }
+        
+        const content = this._formatJournalEntries(entries, this._journalEntries);
+        if (this.storage.appendAsync) {
+          await this.storage.appendAsync('journal', content);
+        } else if (this.storage.append) {
+          this.storage.append('journal', content);
+        } else {
+          await this._writeStorageAsync('journal', ((await this._readStorageAsync('journal')) || '') + content);
         }
+      } catch (error) {
+        this._restorePendingChanges(changes);
+        this._journalBuffer = entries.concat(this._journalBuffer);
+        throw error;
       }
-      
-      return result;
+      this._journalEntries += entries.length;
     }
     
-    // 常规过滤
-    return _.filter(data, item => values.includes(item[field]));
+    if (this._journalEntries >= this._getJournalMaxEntries()) {
+      await this.writeJSONFileAsync();
+    }
   }
-  
+
   /**
-   * Pushes a value into an array in the JSON data.
-   * @param {string} key - The key to push to.
-   * @param {any|any[]} value - The value or values to push.
-   * @returns {NodedbJson} - The instance of the database for chaining.
+   * 在快照数据上重放日志；日志头记录了快照内容的哈希，与当前快照不符的日志已经压缩过，直接删除
+   * 最后一行不完整（写入时崩溃）时丢弃该行并截断日志文件
+   * @param {object} data - 快照数据
+   * @param {string} snapshot - 快照文件内容
+   * @returns {object} - 重放后的数据
    */
-  push(key: string, value: AnyValue | AnyValue[]): NodedbJson {
-    if (!this.has(key)) {
-      if (Array.isArray(value)) {
-        this.set(key, value);
-      } else {
-        this.set(key, [value]);
+  private _replayJournal(data: Record<string, any>, snapshot: string): Record<string, any> {
+    const content = this.storage.read('journal');
+    this._journalExists = content !== undefined;
+    if (content === undefined) {
+      return data;
+    }
+    
+    const journalPath = this._locate('journal');
+    const lines = content.split('\n');
+    let header: { base?: string } | undefined;
+    try {
+      header = JSON.parse(lines[0]);
+    } catch {
+      header = undefined;
+    }
+    if (!header || header.base !== this._hashContent(snapshot)) {
+      // 过期的日志不能再追加新记录，否则新记录也会被忽略
+      if (!this.options.readOnly) {
+        this.storage.remove('journal');
+        this._journalExists = false;
+      }
+      return data;
+    }
+    this._journalBase = header.base;
+    
+    // 以换行结尾时最后一段为空；否则最后一段是未写完的记录
+    const torn = lines.pop();
+    if (torn && !this.options.readOnly) {
+      this.storage.write('journal', content.slice(0, content.length - torn.length));
+    }
+    
+    const encryption = this.options.encryption;
+    const key = encryption ? resolveKey(encryption.key) : undefined;
+    for (let i = 1; i < lines.length; i++) {
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(lines[i]);
+        // 启用加密时不接受明文记录
+        if (key) {
+          if (!isEncryptedValue(entry)) {
+            throw new Error('Unencrypted journal entry.');
+          }
+          entry = decryptValue(entry, key, `line ${i + 1} of "${journalPath}"`, this._getJournalAad(i));
+        }
+      } catch {
+        throw new Error(`Corrupt journal entry at line ${i + 1} of "${journalPath}".`);
+      }
+      this._applyJournalEntry(data, entry);
+    }
+    this._journalEntries = lines.length - 1;
+    return data;
+  }
+
+  /**
+   * 把一条日志记录应用到数据上
+   * @param {object} data - 数据
+   * @param {JournalEntry} entry - 日志记录
+   */
+  private _applyJournalEntry(data: Record<string, any>, entry: JournalEntry): void {
+    switch (entry.op) {
+      case 'set':
+        _.set(data, entry.key, entry.value);
+        break;
+      case 'unset':
+        _.unset(data, entry.key);
+        break;
+      case 'push': {
+        const array = _.get(data, entry.key);
+        if (Array.isArray(array)) {
+          array.push(...entry.values);
+        } else {
+          _.set(data, entry.key, entry.values);
+        }
+        break;
+      }
+      case 'replace': {
+        const array = _.get(data, entry.key);
+        entry.positions.forEach((position, i) => {
+          array[position] = entry.values[i];
+        });
+        break;
+      }
+      case 'remove': {
+        const positions = new Set(entry.positions);
+        _.set(data, entry.key, _.get(data, entry.key).filter((_item: any, i: number) => !positions.has(i)));
+        break;
+      }
+      default: {
+        const unknown: never = entry;
+        throw new Error(`Unknown journal operation: ${(unknown as JournalEntry).op}`);
       }
+    }
+  }
+
+  /**
+   * 用只有日志头的空日志替换日志文件，日志头记录日志所基于的快照
+   * @param {string} snapshot - 快照文件内容
+   */
+  private _writeJournalHeader(snapshot: string): void {
+    const base = this._hashContent(snapshot);
+    this.storage.write('journal', JSON.stringify({ base }) + '\n');
+    this._journalBase = base;
+    this._journalExists = true;
+    this._journalEntries = 0;
+  }
+
+  /**
+   * 异步用只有日志头的空日志替换日志文件
+   * @param {string} snapshot - 快照文件内容
+   */
+  private async _writeJournalHeaderAsync(snapshot: string): Promise<void> {
+    const base = this._hashContent(snapshot);
+    await this._writeStorageAsync('journal', JSON.stringify({ base }) + '\n');
+    this._journalBase = base;
+    this._journalExists = true;
+    this._journalEntries = 0;
+  }
+
+  /**
+   * 计算文件内容的哈希
+   * @param {string} content - 文件内容
+   * @returns {string} - SHA-1 十六进制摘要
+   */
+  private _hashContent(content: string): string {
+    return crypto.createHash('sha1').update(content).digest('hex');
+  }
+
+  /**
+   * 获取自动压缩的日志条目数
+   * @returns {number} - 条目数
+   */
+  private _getJournalMaxEntries(): number {
+    const journal = this.options.journal;
+    return typeof journal === 'object' && journal.maxEntries !== undefined ? journal.maxEntries : 1000;
+  }
+
+  /**
+   * 修改后按 autoSave 设置保存：true 时立即写入，防抖模式下延迟写入或在未保存修改过多时立即写入
+   */
+  private _autoSave(): void {
+    const autoSave = this.options.autoSave;
+    if (!autoSave) {
+      return;
+    }
+    if (autoSave === true) {
+      this._persist();
+      return;
+    }
+    
+    if (autoSave.maxPendingChanges !== undefined && this._countPendingChanges() >= autoSave.maxPendingChanges) {
+      this._persist();
+      return;
+    }
+    
+    if (this._autoSaveTimer) {
+      clearTimeout(this._autoSaveTimer);
+    }
+    // 定时器不阻止进程退出，退出时由进程事件处理器写入
+    this._autoSaveTimer = setTimeout(() => this._saveDebounced(), autoSave.debounceMs !== undefined ? autoSave.debounceMs : 1000);
+    this._autoSaveTimer.unref();
+    pendingAutoSaves.add(this);
+    installExitHandlers();
+  }
+
+  /**
+   * 防抖定时器到期时保存；写入失败时保留未保存的修改并报告警告，下次保存时重试
+   */
+  private _saveDebounced(): void {
+    this._cancelAutoSave();
+    try {
+      this.save();
+    } catch (error) {
+      process.emitWarning(
+        `Debounced save of "${this.filePath}" failed (${(error as Error).message}); changes are kept in memory.`,
+        'NodedbJsonAutoSaveWarning'
+      );
+    }
+  }
+
+  /**
+   * 取消等待中的防抖保存
+   */
+  private _cancelAutoSave(): void {
+    if (this._autoSaveTimer) {
+      clearTimeout(this._autoSaveTimer);
+      this._autoSaveTimer = null;
+    }
+    pendingAutoSaves.delete(this);
+  }
+
+  /**
+   * 异步读取存储，存储不支持时使用同步读取
+   * @param {StorageEntry} entry - 内容
+   * @param {StorageAdapter} [storage] - 存储，默认为数据库的存储
+   * @returns {Promise<string | undefined>} - 内容
+   */
+  private async _readStorageAsync(entry: StorageEntry, storage: StorageAdapter = this.storage): Promise<string | undefined> {
+    return storage.readAsync ? storage.readAsync(entry) : storage.read(entry);
+  }
+
+  /**
+   * 异步写入存储，存储不支持时使用同步写入
+   * @param {StorageEntry} entry - 内容
+   * @param {string} content - 内容
+   * @param {StorageAdapter} [storage] - 存储，默认为数据库的存储
+   */
+  private async _writeStorageAsync(entry: StorageEntry, content: string, storage: StorageAdapter = this.storage): Promise<void> {
+    if (storage.writeAsync) {
+      await storage.writeAsync(entry, content);
     } else {
-      const array = this.get(key);
-      if (Array.isArray(array)) {
-        if (Array.isArray(value)) {
-          array.push(...value);
+      storage.write(entry, content);
+    }
+  }
+
+  /**
+   * 获取存储中某项内容的位置描述，用于错误信息
+   * @param {StorageEntry} entry - 内容
+   * @returns {string} - 位置描述
+   */
+  private _locate(entry: StorageEntry): string {
+    return this.storage.locate ? this.storage.locate(entry) : `${this.filePath} (${entry})`;
+  }
+
+  /**
+   * 从索引定义文件加载索引定义
+   */
+  private _loadIndexDefinitions(): void {
+    const content = this.storage.read('indexes');
+    if (content === undefined) {
+      return;
+    }
+    
+    try {
+      this._indexDefinitions = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Failed to load index definitions from "${this._locate('indexes')}": ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * 将索引定义写入索引定义文件，没有索引时删除该文件
+   */
+  private _saveIndexDefinitions(): void {
+    if (!this.options.persistIndexes || this.options.readOnly) {
+      return;
+    }
+    
+    if (Object.keys(this._indexDefinitions).length === 0) {
+      this.storage.remove('indexes');
+      return;
+    }
+    
+    this.storage.write('indexes', JSON.stringify(this._indexDefinitions, null, 2));
+  }
+
+  /**
+   * 报告从备份恢复的情况
+   * @param {RecoveryInfo} info - 恢复信息
+   */
+  private _reportRecovery(info: RecoveryInfo): void {
+    if (this.options.onRecover) {
+      this.options.onRecover(info);
+    } else {
+      process.emitWarning(
+        `Database file "${info.filePath}" is corrupt (${info.error.message}); recovered from "${info.backupPath}".`,
+        'NodedbJsonRecoveryWarning'
+      );
+    }
+  }
+
+  /**
+   * Manually save changes to file.
+   * @returns {NodedbJson} - The instance of the database for chaining.
+   */
+  save(): NodedbJson {
+    // 事务中的修改只在提交后写入
+    if (this._countPendingChanges() > 0 && !this._inTransaction) {
+      this._persist();
+    }
+    return this;
+  }
+
+  /**
+   * 异步保存未写入的修改，不阻塞事件循环
+   * 同一轮事件循环中的多次调用合并为一次写入；正在写入时发起的调用在其完成后再写入一次
+   * @returns {Promise<void>} - 调用前的所有修改落盘后 resolve
+   */
+  flush(): Promise<void> {
+    if (this._queuedFlush) {
+      return this._queuedFlush;
+    }
+    
+    const previous = this._flushing;
+    const run = async (): Promise<void> => {
+      if (previous) {
+        await previous.catch(() => undefined);
+      }
+      // 让出一轮事件循环，合并紧随其后的修改
+      await new Promise<void>(resolve => setImmediate(resolve));
+      
+      this._queuedFlush = null;
+      this._flushing = flushing;
+      try {
+        if (this._countPendingChanges() > 0 && !this._inTransaction) {
+          await (this.options.journal ? this._appendJournalAsync() : this.writeJSONFileAsync());
+        }
+      } finally {
+        if (this._flushing === flushing) {
+          this._flushing = null;
+        }
+      }
+    };
+    
+    const flushing = run();
+    this._queuedFlush = flushing;
+    return flushing;
+  }
+
+  /**
+   * Sets a value in the JSON data.
+   * @param {string} key - The key to set.
+   * @param {any} value - The value to set.
+   * @returns {NodedbJson} - The instance of the database for chaining.
+   */
+  set(key: string, value: AnyValue): NodedbJson {
+    this._assertWritable();
+    this._ensureLoaded(key);
+    value = this._validateWrites(key, [[key, value]])[0];
+    // 检查是否需要更新索引
+    const indexedKeys = this._getAffectedIndexKeys(key);
+    const existed = this.has(key);
+    const oldValue = _.get(this.data, key);
+    
+    _.set(this.data, key, value);
+    this._resetIdCounters(key);
+    
+    // 如果修改了带索引的数组，重建索引；违反唯一约束时恢复原值
+    if (indexedKeys.length > 0) {
+      this._rebuildIndexesOrRollback(indexedKeys, () => {
+        if (existed) {
+          _.set(this.data, key, oldValue);
         } else {
-          array.push(value);
+          _.unset(this.data, key);
         }
-        this._pendingChanges++;
-        
-        // 如果有索引，更新索引
-        if (this.options.enableIndexing && this._hasIndexDefinition(key)) {
-          this._rebuildIndexesForKey(key);
+      });
+    }
+    
+    this._recordJournal({ op: 'set', key, value });
+    this._markChanged(key);
+    this._autoSave();
+    this._emitChange(key, 'set', oldValue, value, Array.isArray(value) ? value : []);
+    return this;
+  }
+
+  /**
+   * Gets a value from the JSON data.
+   * @param {string} key - The key to get.
+   * @returns {any} - The value.
+   */
+  get(key: string): AnyValue {
+    this._ensureLoaded(key);
+    return _.get(this.data, key);
+  }
+
+  /**
+   * Checks if a key exists in the JSON data.
+   * @param {string} key - The key to check.
+   * @returns {boolean} - True if the key exists, otherwise false.
+   */
+  has(key: string): boolean {
+    this._ensureLoaded(key);
+    return _.has(this.data, key);
+  }
+
+  /**
+   * Updates a value in the JSON data.
+   * @param {string} key - The key to update.
+   * @param {function|object} predicateOrUpdater - The predicate function or updater object.
+   * @param {object} [updater] - The updater object if a predicate function is provided.
+   * @returns {NodedbJson} - The instance of the database for chaining.
+   */
+  update<T>(key: string, predicateOrUpdater: PredicateFunction<T> | UpdaterObject, updater?: UpdaterObject): NodedbJson {
+    this._assertWritable();
+    const data = this.get(key);
+    let change: [any, any, any[]] | undefined;
+    if (Array.isArray(data)) {
+      const hasIndex = this.options.enableIndexing && this._hasIndexDefinition(key);
+      
+      // 如果使用索引进行更新，尝试使用索引查找；否则常规查找
+      const item = typeof predicateOrUpdater === 'object' && hasIndex
+        ? this._findIndexedItem(key, predicateOrUpdater)
+        : _.find(data, predicateOrUpdater as PredicateFunction<T>);
+      
+      if (!item) {
+        throw new Error(`No item found matching the predicate.`);
+      }
+      
+      if (updater) {
+        const [apply] = this._prepareUpdates(key, data, [item], updater);
+        const previous = this._hasChangeListeners() ? _.cloneDeep(item) : undefined;
+        // 如果有索引，只更新该记录对应的索引项
+        if (hasIndex) {
+          this._updateIndexedItem(key, item, () => apply(item));
+        } else {
+          apply(item);
         }
-        
-        if (this.options.autoSave) {
-          this.writeJSONFile();
+        if (this.options.journal) {
+          this._recordJournal({ op: 'replace', key, positions: [data.indexOf(item)], values: [item] });
         }
+        this._markChanged(key);
+        change = [previous, item, [item]];
+      }
+    } else if (_.isObject(data) && typeof predicateOrUpdater === 'object') {
+      // 更新对象或操作符作用于整个对象：在副本上执行，校验通过后替换，违反唯一约束时恢复原值
+      let value = this._applyUpdate(_.cloneDeep(data), predicateOrUpdater);
+      if (this._hasSchema(key)) {
+        [value] = this._validateWrites(key, [[key, value]]);
+      }
+      const indexedKeys = this._getAffectedIndexKeys(key);
+      _.set(this.data, key, value);
+      if (indexedKeys.length > 0) {
+        this._rebuildIndexesOrRollback(indexedKeys, () => _.set(this.data, key, data));
+      }
+      this._recordJournal({ op: 'set', key, value });
+      this._markChanged(key);
+      change = [data, value, []];
+    } else if (_.isObject(data)) {
+      const previous = this._hasChangeListeners() ? _.cloneDeep(data) : undefined;
+      if (this._hasSchema(key)) {
+        // 在副本上执行更新函数，校验通过后再写入
+        const [value] = this._validateWrites(key, [[key, (predicateOrUpdater as any)(_.cloneDeep(data))]]);
+        _.set(this.data, key, value);
       } else {
-        throw new Error(`Key "${key}" is not an array.`);
+        _.update(this.data, key, predicateOrUpdater as any);
       }
+      this._recordJournal({ op: 'set', key, value: this.get(key) });
+      this._markChanged(key);
+      change = [previous, this.get(key), []];
+    } else {
+      throw new Error(`Key "${key}" does not reference a collection or array.`);
+    }
+    
+    this._autoSave();
+    if (change) {
+      this._emitChange(key, 'update', ...change);
+    }
+    return this;
+  }
+
+  /**
+   * Deletes a value from the JSON data.
+   * @param {string} key - The key to delete.
+   * @param {function|Array<string|number>} [predicateOrKeys] - The predicate function or array of keys to delete.
+   * @param {string} [field='id'] - The field to match for array deletion.
+   * @returns {NodedbJson} - The instance of the database for chaining.
+   */
+  delete<T>(key: string, predicateOrKeys?: PredicateFunction<T> | Array<string | number>, field: string = 'id'): NodedbJson {
+    this._assertWritable();
+    const data = this.get(key);
+    const hasIndex = this.options.enableIndexing && this._hasIndexDefinition(key);
+    const indexedKeys = this._getAffectedIndexKeys(key);
+    let oldValue: any;
+    let newValue: any;
+    let removed: any[] = [];
+    
+    if (Array.isArray(data)) {
+      if (typeof predicateOrKeys === 'function') {
+        removed = this._removeItems(key, data, predicateOrKeys as PredicateFunction<T>);
+      } else if (Array.isArray(predicateOrKeys)) {
+        // 如果有索引，尝试使用索引删除
+        if (hasIndex && this._hasIndexOnField(key, field)) {
+          const targets = new Set<any>();
+          for (const fieldValue of predicateOrKeys) {
+            this._getItemsByField(key, field, fieldValue).forEach(item => targets.add(item));
+          }
+          removed = targets.size > 0 ? this._removeItems(key, data, item => targets.has(item)) : [];
+        } else {
+          removed = this._removeItems(key, data, (item: any) => predicateOrKeys.includes(item[field]));
+        }
+      } else {
+        throw new Error(`Predicate or keys array must be provided for array deletion.`);
+      }
+      
+      // 如果有索引，只移除被删除记录的索引项
+      if (hasIndex) {
+        this._removeFromIndexes(key, removed);
+      }
+      oldValue = removed;
+    } else if (this.has(key)) {
+      if (Array.isArray(predicateOrKeys)) {
+        this._validateRemoval(key, predicateOrKeys.map(itemKey => [..._.toPath(key), ..._.toPath(itemKey)]));
+        oldValue = this._hasChangeListeners() ? _.cloneDeep(data) : undefined;
+        predicateOrKeys.forEach(itemKey => {
+          _.unset(this.data[key], itemKey);
+          this._recordJournal({ op: 'unset', key: [key, ..._.toPath(itemKey)] });
+        });
+        newValue = this.get(key);
+      } else {
+        this._validateRemoval(key, [_.toPath(key)]);
+        oldValue = data;
+        _.unset(this.data, key);
+        this._recordJournal({ op: 'unset', key });
+      }
+      
+      // 如果有索引，更新索引
+      indexedKeys.forEach(indexedKey => this._rebuildIndexesForKey(indexedKey));
+    } else {
+      throw new Error(`Key "${key}" does not exist.`);
+    }
+    
+    this._markChanged(key);
+    this._autoSave();
+    this._emitChange(key, 'delete', oldValue, newValue, removed);
+    return this;
+  }
+
+  /**
+   * Finds a value in the JSON data.
+   * @param {string} key - The key to find.
+   * @param {function} predicate - The predicate function to match.
+   * @returns {any} - The found value.
+   */
+  find<T>(key: string, predicate: PredicateFunction<T>): T | undefined {
+    const data = this.get(key);
+    if (Array.isArray(data)) {
+      return _.find(data, predicate);
+    } else if (_.isObject(data)) {
+      return _.find(Object.values(data), predicate);
+    } else {
+      throw new Error(`Key "${key}" does not reference a collection or array.`);
+    }
+  }
+
+  /**
+   * Finds a value by field and value using index if available.
+   * @param {string} key - The key to find.
+   * @param {string} field - The field to match.
+   * @param {any} value - The value to match.
+   * @returns {any} - The found value.
+   */
+  findByField<T>(key: string, field: string, value: any): T | undefined {
+    const data = this.get(key);
+    
+    if (!Array.isArray(data)) {
+      throw new Error(`Key "${key}" does not reference an array.`);
+    }
+    
+    // 使用索引进行查找
+    if (this.options.enableIndexing && this._hasIndexOnField(key, field)) {
+      return this._getItemsByField(key, field, value)[0] as T | undefined;
+    } 
+    
+    // 常规查找
+    return _.find(data, item => _.get(item, field) === value);
+  }
+
+  /**
+   * Filters values in the JSON data.
+   * @param {string} key - The key to filter.
+   * @param {function} predicate - The predicate function to match.
+   * @returns {any[]} - The filtered values.
+   */
+  filter<T>(key: string, predicate: PredicateFunction<T>): T[] {
+    const data = this.get(key);
+    if (Array.isArray(data)) {
+      return _.filter(data, predicate);
+    } else if (_.isObject(data)) {
+      return _.filter(Object.values(data), predicate);
+    } else {
+      throw new Error(`Key "${key}" does not reference a collection or array.`);
+    }
+  }
+  
+  /**
+   * Filters values by field and possible values using index if available.
+   * @param {string} key - The key to filter.
+   * @param {string} field - The field to match.
+   * @param {any[]} values - The values to match.
+   * @returns {any[]} - The filtered values.
+   */
+  filterByField<T>(key: string, field: string, values: any[]): T[] {
+    const data = this.get(key);
+    
+    if (!Array.isArray(data)) {
+      throw new Error(`Key "${key}" does not reference an array.`);
+    }
+    
+    // 使用索引进行过滤
+    if (this.options.enableIndexing && this._hasIndexOnField(key, field)) {
+      const result: T[] = [];
+      
+      for (const value of values) {
+        result.push(...this._getItemsByField(key, field, value));
+      }
+      
+      // 多键索引中一条记录可能匹配多个值
+      return this._indexDefinitions[key][field].multikey ? _.uniq(result) : result;
+    }
+    
+    // 常规过滤
+    return _.filter(data, item => values.includes(_.get(item, field)));
+  }
+  
+  /**
+   * Pushes a value into an array in the JSON data.
+   * @param {string} key - The key to push to.
+   * @param {any|any[]} value - The value or values to push.
+   * @returns {NodedbJson} - The instance of the database for chaining.
+   */
+  push(key: string, value: AnyValue | AnyValue[]): NodedbJson {
+    this._assertWritable();
+    if (!this.has(key)) {
+      if (Array.isArray(value)) {
+        this.set(key, value);
+      } else {
+        this.set(key, [value]);
+      }
+    } else {
+      const array = this.get(key);
+      if (Array.isArray(array)) {
+        const values = this._validateWrites(key, (Array.isArray(value) ? value : [value]).map((item, i): [string, any] => [`${key}.${array.length + i}`, item]));
+        const hasIndex = this.options.enableIndexing && this._hasIndexDefinition(key);
+        
+        // 如果有索引，先检查唯一约束，再只为新记录添加索引项
+        if (hasIndex) {
+          this._checkUniqueConstraints(key, values);
+        }
+        array.push(...values);
+        if (hasIndex) {
+          this._addToIndexes(key, values);
+        }
+        this._recordJournal({ op: 'push', key, values });
+        this._markChanged(key);
+        this._autoSave();
+        this._emitChange(key, 'push', undefined, values, values);
+      } else {
+        throw new Error(`Key "${key}" is not an array.`);
+      }
+    }
+    return this;
+  }
+  
+  /**
+   * 插入一条记录，缺少主键时按集合的主键策略生成
+   * @param {string} key - 集合路径
+   * @param {T} doc - 要插入的记录
+   * @returns {T} - 实际存储的记录（包含主键）
+   */
+  insertOne<T = any>(key: string, doc: T): T {
+    return this.insertMany<T>(key, [doc])[0];
+  }
+  
+  /**
+   * 插入多条记录，缺少主键时按集合的主键策略生成
+   * @param {string} key - 集合路径
+   * @param {T[]} docs - 要插入的记录
+   * @returns {T[]} - 实际存储的记录（包含主键）
+   */
+  insertMany<T = any>(key: string, docs: T[]): T[] {
+    this._assertWritable();
+    if (!this.has(key)) {
+      this.set(key, []);
+    } else if (!Array.isArray(this.get(key))) {
+      throw new Error(`Key "${key}" does not reference an array.`);
+    }
+    
+    const { field, strategy } = this._getPrimaryKeyOptions(key);
+    
+    // 自增主键需要跳过同批记录中显式指定的主键
+    // 没有主键索引时不能逐个检查生成的主键是否已存在，每批扫描一次集合，使计数器不落后于现有主键
+    if (strategy === 'increment') {
+      const counter = this._idCounters[key];
+      const current = counter !== undefined && this._hasPrimaryKeyIndex(key, field)
+        ? counter
+        : Math.max(counter || 0, this._getMaxNumericId(this.get(key), field));
+      this._idCounters[key] = Math.max(current, this._getMaxNumericId(docs, field));
+    }
+    
+    // 存储深拷贝，主键字段是嵌套路径时调用方的嵌套对象同样不会被写入主键
+    const stored = docs.map(doc => {
+      const record: any = _.cloneDeep(doc);
+      if (_.get(record, field) == null) {
+        _.set(record, field, this._generateId(key, field, strategy, record));
+      }
+      return record as T;
+    });
+    
+    // 结构校验可能填充默认值或转换类型，返回实际写入数组的记录
+    this.push(key, stored);
+    const array = this.get(key);
+    return array.slice(array.length - stored.length);
+  }
+  
+  /**
+   * 获取集合的主键配置
+   * @param {string} key - 集合路径
+   * @returns {Required<PrimaryKeyOptions>} - 主键字段和生成策略
+   */
+  private _getPrimaryKeyOptions(key: string): Required<PrimaryKeyOptions> {
+    const config = this.options.primaryKeys ? this.options.primaryKeys[key] : undefined;
+    if (typeof config === 'string' || typeof config === 'function') {
+      return { field: 'id', strategy: config };
+    }
+    return { field: 'id', strategy: 'increment', ...config };
+  }
+  
+  /**
+   * 按策略生成主键
+   * @param {string} key - 集合路径
+   * @param {string} field - 主键字段
+   * @param {IdStrategy} strategy - 生成策略
+   * @param {any} doc - 待插入的记录
+   * @returns {any} - 主键值
+   */
+  private _generateId(key: string, field: string, strategy: IdStrategy, doc: any): any {
+    if (typeof strategy === 'function') {
+      return strategy(doc, key);
+    }
+    
+    switch (strategy) {
+      case 'increment':
+        return this._nextIncrementId(key, field);
+      case 'uuid':
+        return crypto.randomUUID();
+      case 'ulid':
+        return this._generateUlid();
+      default:
+        throw new Error(`Unknown id strategy: ${strategy}`);
+    }
+  }
+  
+  /**
+   * 生成下一个自增主键，计数器首次使用时从集合中现有的最大数字主键开始
+   * @param {string} key - 集合路径
+   * @param {string} field - 主键字段
+   * @returns {number} - 主键值
+   */
+  private _nextIncrementId(key: string, field: string): number {
+    if (this._idCounters[key] === undefined) {
+      this._idCounters[key] = this._getMaxNumericId(this.get(key), field);
+    }
+    
+    let id = ++this._idCounters[key];
+    // 主键可能被 update 等方法改大，计数器落后于现有主键时重新扫描；没有主键索引时 insertMany 已在本批开始时扫描
+    if (this._hasPrimaryKeyIndex(key, field) && this.findByField(key, field, id) !== undefined) {
+      this._idCounters[key] = this._getMaxNumericId(this.get(key), field);
+      id = ++this._idCounters[key];
+    }
+    return id;
+  }
+  
+  /**
+   * 检查主键字段上是否有可用的索引
+   * @param {string} key - 集合路径
+   * @param {string} field - 主键字段
+   * @returns {boolean} - 是否有索引
+   */
+  private _hasPrimaryKeyIndex(key: string, field: string): boolean {
+    return !!this.options.enableIndexing && this._hasIndexOnField(key, field);
+  }
+  
+  /**
+   * 获取记录中最大的数字主键
+   * @param {any[]} items - 记录
+   * @param {string} field - 主键字段
+   * @returns {number} - 最大主键，没有数字主键时为 0
+   */
+  private _getMaxNumericId(items: any[], field: string): number {
+    return items.reduce((max, item) => {
+      const id = _.get(item, field);
+      return typeof id === 'number' && id > max ? Math.floor(id) : max;
+    }, 0);
+  }
+  
+  /**
+   * 集合被整体替换后清除受影响的自增计数器，下次生成主键时重新扫描
+   * @param {string} key - 被修改的路径
+   */
+  private _resetIdCounters(key: string): void {
+    Object.keys(this._idCounters)
+      .filter(counterKey => counterKey === key || counterKey.startsWith(`${key}.`) || key.startsWith(`${counterKey}.`))
+      .forEach(counterKey => delete this._idCounters[counterKey]);
+  }
+  
+  /**
+   * 生成 ULID：48 位毫秒时间戳加 80 位随机数，使用 Crockford Base32 编码
+   * @returns {string} - 26 个字符的 ULID
+   */
+  private _generateUlid(): string {
+    const alphabet = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+    let time = Date.now();
+    let timePart = '';
+    for (let i = 0; i < 10; i++) {
+      timePart = alphabet[time % 32] + timePart;
+      time = Math.floor(time / 32);
+    }
+    
+    const bytes = crypto.randomBytes(16);
+    let randomPart = '';
+    for (let i = 0; i < 16; i++) {
+      randomPart += alphabet[bytes[i] % 32];
+    }
+    return timePart + randomPart;
+  }
+  
+  /**
+   * 更新所有匹配条件的记录
+   * @param {string} key - 集合路径
+   * @param {PredicateFunction<T> | WhereCondition<T>} where - 过滤条件
+   * @param {UpdaterObject} updater - 更新对象
+   * @returns {number} - 更新的记录数
+   */
+  updateMany<T = any>(key: string, where: PredicateFunction<T> | WhereCondition<T>, updater: UpdaterObject): number {
+    this._assertWritable();
+    const data = this.get(key);
+    if (!Array.isArray(data)) {
+      throw new Error(`Key "${key}" does not reference an array.`);
+    }
+    
+    const matched = this._applyFilter(key, data, where).data;
+    if (matched.length === 0) {
+      return 0;
+    }
+    
+    // 所有记录的更新都计算成功（包括结构校验）后才开始修改
+    const updates = this._prepareUpdates(key, data, matched, updater);
+    const hasIndex = this.options.enableIndexing && this._hasIndexDefinition(key);
+    const snapshots = hasIndex || this._hasChangeListeners() ? matched.map(item => _.cloneDeep(item)) : undefined;
+    if (hasIndex && snapshots) {
+      // 逐条维护索引；任一记录违反唯一约束时恢复此前已更新的记录
+      let updatedCount = 0;
+      try {
+        matched.forEach((item, i) => {
+          this._updateIndexedItem(key, item, () => updates[i](item));
+          updatedCount++;
+        });
+      } catch (error) {
+        const updated = matched.slice(0, updatedCount);
+        this._removeFromIndexes(key, updated);
+        updated.forEach((item, i) => this._restoreItem(item, snapshots[i]));
+        this._addToIndexes(key, updated);
+        throw error;
+      }
+    } else {
+      matched.forEach((item, i) => updates[i](item));
+    }
+    
+    if (this.options.journal) {
+      const positions = new Map<any, number>(data.map((item: any, i: number) => [item, i]));
+      this._recordJournal({ op: 'replace', key, positions: matched.map(item => positions.get(item) as number), values: matched });
+    }
+    this._markChanged(key);
+    this._autoSave();
+    this._emitChange(key, 'update', snapshots, matched, matched);
+    return matched.length;
+  }
+  
+  /**
+   * 删除所有匹配条件的记录
+   * @param {string} key - 集合路径
+   * @param {PredicateFunction<T> | WhereCondition<T>} where - 过滤条件
+   * @returns {number} - 删除的记录数
+   */
+  deleteMany<T = any>(key: string, where: PredicateFunction<T> | WhereCondition<T>): number {
+    this._assertWritable();
+    const data = this.get(key);
+    if (!Array.isArray(data)) {
+      throw new Error(`Key "${key}" does not reference an array.`);
+    }
+    
+    const matched = this._applyFilter(key, data, where).data;
+    if (matched.length === 0) {
+      return 0;
+    }
+    
+    const targets = new Set<any>(matched);
+    this._removeItems(key, data, item => targets.has(item));
+    if (this.options.enableIndexing && this._hasIndexDefinition(key)) {
+      this._removeFromIndexes(key, matched);
+    }
+    
+    this._markChanged(key);
+    this._autoSave();
+    this._emitChange(key, 'delete', matched, undefined, matched);
+    return matched.length;
+  }
+  
+  /**
+   * 从流中逐批导入记录到集合，插入时执行结构校验、主键生成和索引维护
+   * 无法解析、校验失败或违反唯一约束的记录不会中断导入，而是记录在结果的 rejected 中
+   * 整个导入只在结束时保存一次
+   * @param {string} key - 集合路径
+   * @param {ImportSource} source - 数据来源，如 fs.createReadStream 返回的流
+   * @param {ImportOptions} options - 导入选项
+   * @returns {Promise<ImportResult>} - 插入的记录数和被拒绝的记录
+   */
+  async importCollection(key: string, source: ImportSource, options: ImportOptions): Promise<ImportResult> {
+    this._assertWritable();
+    if (this.has(key) && !Array.isArray(this.get(key))) {
+      throw new Error(`Key "${key}" does not reference an array.`);
+    }
+    
+    const batchSize = options.batchSize !== undefined ? options.batchSize : 1000;
+    const result: ImportResult = { imported: 0, rejected: [] };
+    let processed = 0;
+    let batch: ParsedRecord[] = [];
+    const insertBatch = () => {
+      this._importRecords(key, batch, result);
+      batch = [];
+      if (options.onProgress) {
+        options.onProgress({ processed, imported: result.imported, rejected: result.rejected.length });
+      }
+    };
+    
+    try {
+      for await (const parsed of readRecords(source, options)) {
+        processed++;
+        batch.push(parsed);
+        if (batch.length >= batchSize) {
+          insertBatch();
+        }
+      }
+      if (batch.length > 0 || processed === 0) {
+        insertBatch();
+      }
+    } finally {
+      // 各批次只更新内存，导入结束或中断时统一保存一次，已插入的记录不会丢失
+      if (this._countPendingChanges() > 0) {
+        this._autoSave();
+      }
+    }
+    return result;
+  }
+  
+  /**
+   * 插入一批导入的记录，不保存文件：整批插入失败时改为逐条插入
+   * @param {string} key - 集合路径
+   * @param {ParsedRecord[]} batch - 读取的记录
+   * @param {ImportResult} result - 导入结果
+   */
+  private _importRecords(key: string, batch: ParsedRecord[], result: ImportResult): void {
+    const valid: ParsedRecord[] = [];
+    batch.forEach(({ row, raw, record, error }) => {
+      if (error) {
+        result.rejected.push({ row, raw, error });
+      } else if (!_.isPlainObject(record)) {
+        result.rejected.push({ row, raw, record, error: new Error('Record must be an object.') });
+      } else {
+        valid.push({ row, raw, record });
+      }
+    });
+    if (valid.length === 0) {
+      return;
+    }
+    
+    const isRecordError = (error: unknown) => error instanceof ValidationError || error instanceof UniqueConstraintError;
+    const originalAutoSave = this.options.autoSave;
+    const idCounter = this._idCounters[key];
+    this.options.autoSave = false;
+    try {
+      try {
+        this.insertMany(key, valid.map(parsed => parsed.record));
+        result.imported += valid.length;
+      } catch (error) {
+        if (!isRecordError(error)) {
+          throw error;
+        }
+        // 整批插入失败时已经生成的自增主键作废
+        this._idCounters[key] = idCounter;
+        valid.forEach(({ row, raw, record }) => {
+          try {
+            this.insertOne(key, record);
+            result.imported++;
+          } catch (recordError) {
+            if (!isRecordError(recordError)) {
+              throw recordError;
+            }
+            result.rejected.push({ row, raw, record, error: recordError as Error });
+          }
+        });
+      }
+    } finally {
+      this.options.autoSave = originalAutoSave;
+    }
+  }
+  
+  /**
+   * 把集合导出为可读流，逐条序列化记录；导出调用时集合中的记录
+   * @param {string} key - 集合路径
+   * @param {TransferFormat} format - 数据格式
+   * @param {ExportOptions<T>} [options] - 导出选项
+   * @returns {Readable} - 文本流，可以直接 pipe 到文件
+   */
+  exportCollection<T = any>(key: string, format: TransferFormat, options: ExportOptions<T> = {}): Readable {
+    const data = this.get(key);
+    if (!Array.isArray(data)) {
+      throw new Error(`Key "${key}" does not reference an array.`);
+    }
+    
+    const records = options.where ? this._applyFilter<T>(key, data, options.where).data : data.slice();
+    return Readable.from(formatRecords(records, format, options), { objectMode: false });
+  }
+  
+  /**
+   * 获取类型化的集合句柄，集合不存在时创建空数组
+   * @param {string} key - 集合路径
+   * @returns {Collection<T>} - 集合句柄
+   */
+  collection<T extends object = any>(key: string): Collection<T> {
+    if (!this.has(key)) {
+      this.set(key, []);
+    } else if (!Array.isArray(this.get(key))) {
+      throw new Error(`Key "${key}" does not reference an array.`);
+    }
+    return new Collection<T>(this, key);
+  }
+  
+  /**
+   * 记录当前数据文件内容的哈希，监视模式据此区分外部修改和自身的写入
+   * 写入前调用：重命名完成之前目标文件的状态不会变化，不会把自身的写入误判为外部修改
+   * @param {string} content - 数据文件内容
+   */
+  private _rememberSnapshot(content: string): void {
+    if (this.options.watch) {
+      this._snapshotHash = this._hashContent(content);
+    }
+  }
+  
+  /**
+   * 获取监视模式配置
+   * @returns {Required<WatchOptions>} - 监视配置
+   */
+  private _getWatchOptions(): Required<WatchOptions> {
+    const watch = this.options.watch;
+    return {
+      interval: 500,
+      onConflict: 'reload',
+      ...(typeof watch === 'object' ? watch : {})
+    };
+  }
+  
+  /**
+   * 开始监视存储中的数据
+   */
+  private _startWatching(): void {
+    const watch = this.storage.watch as NonNullable<StorageAdapter['watch']>;
+    this._stopWatch = watch.call(this.storage, () => {
+      try {
+        this._handleExternalChange();
+      } catch (error) {
+        if (this.listenerCount('error') > 0) {
+          this.emit('error', error);
+        } else {
+          process.emitWarning(
+            `Failed to reload "${this.filePath}" after an external change (${(error as Error).message}).`,
+            'NodedbJsonWatchWarning'
+          );
+        }
+      }
+    }, this._getWatchOptions().interval);
+  }
+  
+  /**
+   * 停止监视数据文件
+   */
+  private _stopWatching(): void {
+    if (this._stopWatch) {
+      this._stopWatch();
+      this._stopWatch = null;
+    }
+  }
+  
+  /**
+   * 处理数据文件的变化：内容与最近一次读写的一致时忽略，否则按冲突策略重新加载
+   */
+  private _handleExternalChange(): void {
+    const content = this.storage.read('data');
+    if (content === undefined) {
+      return;
+    }
+    const hash = this._hashContent(content);
+    if (hash === this._snapshotHash || this._inTransaction) {
+      return;
+    }
+    
+    let external: Record<string, any>;
+    try {
+      external = JSON.parse(content);
+    } catch {
+      // 外部写入尚未完成，等待下一次变化
+      return;
+    }
+    external = this._decryptData(external);
+    
+    // 已追加到日志但未压缩的修改同样不在外部文件中
+    const conflict = this._countPendingChanges() > 0 || this._journalEntries > 0;
+    const policy = this._getWatchOptions().onConflict;
+    let resolution: ReloadEvent['resolution'] = 'reload';
+    let data = external;
+    if (conflict && policy === 'keep') {
+      resolution = 'keep';
+    } else if (conflict && typeof policy === 'function') {
+      resolution = 'merge';
+      data = policy({ local: this.data, external });
+    }
+    
+    this._snapshotHash = hash;
+    if (resolution !== 'keep') {
+      this._loadExternalData(data, content);
+    }
+    // 合并结果立即写入；预写日志模式下保留的数据也要立即写入快照，旧日志已不再适用于外部文件
+    if (resolution === 'merge' || (resolution === 'keep' && this.options.journal)) {
+      this.writeJSONFile();
+    }
+    
+    const event: ReloadEvent = { filePath: this.filePath, conflict, resolution };
+    this.emit('reload', event);
+  }
+  
+  /**
+   * 用外部数据替换内存数据并重建索引；索引重建失败（如违反唯一约束）时保留原数据
+   * @param {object} data - 新数据
+   * @param {string} content - 数据文件内容
+   */
+  private _loadExternalData(data: Record<string, any>, content: string): void {
+    const previous = {
+      data: this.data,
+      pendingChanges: this._pendingChanges,
+      journalBuffer: this._journalBuffer
+    };
+    
+    this.data = data;
+    this._idCounters = {};
+    this._pendingChanges = {};
+    this._journalBuffer = [];
+    this._cancelAutoSave();
+    
+    try {
+      if (this.options.enableIndexing) {
+        this._rebuildAllIndexes();
+      }
+    } catch (error) {
+      this.data = previous.data;
+      this._pendingChanges = previous.pendingChanges;
+      this._journalBuffer = previous.journalBuffer;
+      if (this.options.enableIndexing) {
+        this._rebuildAllIndexes();
+      }
+      throw error;
+    }
+    
+    // 旧日志基于被替换的快照，重新开始
+    if (this.options.journal && !this.options.readOnly) {
+      this._writeJournalHeader(content);
+    }
+  }
+  
+  /**
+   * 获取数据文件中保存的版本号，未执行过迁移时为 0
+   * @returns {number} - 版本号
+   */
+  getSchemaVersion(): number {
+    const version = this.get(this._getVersionKey());
+    if (version === undefined) {
+      return 0;
+    }
+    if (!Number.isInteger(version) || version < 0) {
+      throw new Error(`Invalid schema version ${JSON.stringify(version)} in "${this.filePath}".`);
+    }
+    return version;
+  }
+  
+  /**
+   * 获取保存版本号的键
+   * @returns {string} - 顶层键
+   */
+  private _getVersionKey(): string {
+    return this.options.versionKey || '_schemaVersion';
+  }
+  
+  /**
+   * 执行尚未应用的迁移；所有迁移在同一个事务中执行，任一失败时数据和版本号保持不变
+   * @param {Migration[]} migrations - 按版本排列的迁移
+   */
+  private _runMigrations(migrations: Migration[]): void {
+    const current = this.getSchemaVersion();
+    const latest = migrations.length;
+    if (current > latest) {
+      throw new SchemaVersionError(this.filePath, current, latest);
+    }
+    if (current === latest) {
+      return;
+    }
+    if (this.options.readOnly) {
+      throw new Error(`Database "${this.filePath}" needs migrations from version ${current} to ${latest} and cannot be opened read-only.`);
+    }
+    
+    const versionKey = this._getVersionKey();
+    this.transaction(db => {
+      migrations.slice(current).forEach((migration, i) => {
+        const version = current + i + 1;
+        try {
+          const result: any = migration.up(db);
+          if (result && typeof result.then === 'function') {
+            throw new Error('Migrations must be synchronous.');
+          }
+        } catch (error) {
+          throw new MigrationError(version, migration.name, error);
+        }
+        db.set(versionKey, version);
+      });
+    });
+    
+    // 迁移结果立即写入，不受 autoSave 设置影响
+    this.save();
+  }
+  
+  /**
+   * 为路径注册结构定义，之后写入该路径及其子路径时先校验；已有数据不会被校验
+   * @param {string} key - 路径，集合路径的结构定义应描述整个数组，例如 [{ name: 'string' }]
+   * @param {SchemaDefinition} schema - JSON Schema 或简写的结构定义
+   * @param {ValidationOptions} [options] - 校验选项，覆盖 DbOptions.validation
+   * @returns {NodedbJson} - 实例
+   */
+  registerSchema(key: string, schema: SchemaDefinition, options?: ValidationOptions): NodedbJson {
+    this._schemas[key] = {
+      schema: toJsonSchema(schema),
+      options: { ...this.options.validation, ...options }
+    };
+    return this;
+  }
+  
+  /**
+   * 移除路径上的结构定义
+   * @param {string} key - 路径
+   * @returns {NodedbJson} - 实例
+   */
+  removeSchema(key: string): NodedbJson {
+    delete this._schemas[key];
+    return this;
+  }
+  
+  /**
+   * 是否有结构定义约束该路径（路径本身、上级或下级）
+   * @param {string} key - 路径
+   * @returns {boolean} - 是否需要校验
+   */
+  private _hasSchema(key: string): boolean {
+    return Object.keys(this._schemas).some(schemaKey => this._isRelatedPath(key, schemaKey));
+  }
+  
+  /**
+   * 按结构定义校验即将写入的值，所有失败的位置汇总为一个 ValidationError
+   * @param {string} key - 写操作的路径，用于错误信息
+   * @param {Array<[string, any]>} writes - 写入的完整路径和值
+   * @returns {any[]} - 校验后的值，可能填充了默认值或转换了类型
+   */
+  private _validateWrites(key: string, writes: Array<[string, any]>): any[] {
+    const schemaKeys = Object.keys(this._schemas).filter(schemaKey => this._isRelatedPath(key, schemaKey));
+    if (schemaKeys.length === 0) {
+      return writes.map(([, value]) => value);
+    }
+    
+    const issues: ValidationIssue[] = [];
+    const values = writes.map(([path, value]) => {
+      const segments = _.toPath(path);
+      let result = value;
+      let copied = false;
+      
+      for (const schemaKey of schemaKeys) {
+        if (!this._isRelatedPath(path, schemaKey)) {
+          continue;
+        }
+        
+        const { schema, options } = this._schemas[schemaKey];
+        // 填充默认值和类型转换会修改值，在副本上进行，校验失败时调用方的对象保持不变
+        if ((options.useDefaults || options.coerceTypes) && !copied) {
+          result = _.cloneDeep(result);
+          copied = true;
+        }
+        
+        const schemaSegments = _.toPath(schemaKey);
+        if (schemaSegments.length <= segments.length) {
+          // 写入结构定义覆盖的路径或其子路径
+          const subSchema = getSubSchema(schema, segments.slice(schemaSegments.length));
+          if (subSchema === false) {
+            issues.push({ path, keyword: 'additionalProperties', message: 'is not allowed', value: result });
+          } else if (subSchema) {
+            result = validateValue(subSchema, result, path, options, issues);
+          }
+        } else {
+          // 写入结构定义路径的上级，只校验新值中对应的部分
+          const relative = schemaSegments.slice(segments.length);
+          const current = _.get(result, relative);
+          if (current === undefined) {
+            if (options.useDefaults && schema.default !== undefined && _.isObject(result)) {
+              _.set(result, relative, _.cloneDeep(schema.default));
+            }
+          } else {
+            const next = validateValue(schema, current, schemaKey, options, issues);
+            if (next !== current) {
+              _.set(result, relative, next);
+            }
+          }
+        }
+      }
+      return result;
+    });
+    
+    if (issues.length > 0) {
+      throw new ValidationError(key, issues);
+    }
+    return values;
+  }
+  
+  /**
+   * 计算每条记录的更新；操作符更新和需要结构校验的更新先在副本上执行，全部成功后再原地替换记录内容
+   * @param {string} key - 集合路径
+   * @param {any[]} data - 集合数组
+   * @param {any[]} items - 要更新的记录
+   * @param {UpdaterObject} updater - 更新对象或操作符
+   * @returns {Array<function>} - 与 items 对应的修改函数
+   */
+  private _prepareUpdates(key: string, data: any[], items: any[], updater: UpdaterObject): Array<(item: any) => void> {
+    if (!this._isUpdateOperatorObject(updater) && !this._hasSchema(key)) {
+      return items.map(() => (item: any) => {
+        _.merge(item, updater);
+      });
+    }
+    
+    let updated = items.map(item => this._applyUpdate(_.cloneDeep(item), updater));
+    if (this._hasSchema(key)) {
+      const positions = new Map<any, number>(data.map((item: any, i: number) => [item, i]));
+      updated = this._validateWrites(key, items.map((item, i): [string, any] => [`${key}.${positions.get(item)}`, updated[i]]));
+    }
+    return updated.map(next => (item: any) => this._restoreItem(item, next));
+  }
+  
+  /**
+   * 判断更新对象是否为操作符对象，操作符不能与普通字段混用
+   * @param {UpdaterObject} updater - 更新对象
+   * @returns {boolean} - 是否为操作符对象
+   */
+  private _isUpdateOperatorObject(updater: UpdaterObject): boolean {
+    const keys = Object.keys(updater);
+    const operators = keys.filter(key => key.startsWith('$'));
+    if (operators.length > 0 && operators.length < keys.length) {
+      throw new Error('Update operators cannot be mixed with plain fields.');
+    }
+    return operators.length > 0;
+  }
+  
+  /**
+   * 对目标对象执行更新：普通字段深度合并，操作符按出现顺序执行
+   * @param {any} target - 要修改的对象（会被原地修改）
+   * @param {UpdaterObject} updater - 更新对象或操作符
+   * @returns {any} - 修改后的对象
+   */
+  private _applyUpdate(target: any, updater: UpdaterObject): any {
+    if (!this._isUpdateOperatorObject(updater)) {
+      return _.merge(target, updater);
+    }
+    
+    for (const [operator, fields] of Object.entries(updater as UpdateOperators)) {
+      if (!_.isPlainObject(fields)) {
+        throw new Error(`Operator ${operator} requires an object of field paths.`);
+      }
+      for (const [path, operand] of Object.entries(fields as Record<string, any>)) {
+        this._applyUpdateOperator(target, operator, path, operand);
+      }
+    }
+    return target;
+  }
+  
+  /**
+   * 对单个字段执行更新操作符
+   * @param {any} target - 要修改的对象
+   * @param {string} operator - 操作符
+   * @param {string} path - 字段路径
+   * @param {any} operand - 操作数
+   */
+  private _applyUpdateOperator(target: any, operator: string, path: string, operand: any): void {
+    const current = _.get(target, path);
+    const exists = _.has(target, path);
+    switch (operator) {
+      case '$set':
+        _.set(target, path, _.cloneDeep(operand));
+        break;
+      case '$unset':
+        _.unset(target, path);
+        break;
+      case '$inc':
+      case '$mul':
+        if (typeof operand !== 'number') {
+          throw new Error(`Operator ${operator} requires a numeric operand for field "${path}".`);
+        }
+        if (exists && typeof current !== 'number') {
+          throw new Error(`Cannot apply ${operator} to non-numeric field "${path}".`);
+        }
+        if (operator === '$inc') {
+          _.set(target, path, exists ? current + operand : operand);
+        } else {
+          _.set(target, path, exists ? current * operand : 0);
+        }
+        break;
+      case '$min':
+      case '$max': {
+        if (!exists) {
+          _.set(target, path, _.cloneDeep(operand));
+          break;
+        }
+        const comparison = this._compareValues(operand, current);
+        if (comparison === undefined) {
+          throw new Error(`Cannot compare operand of ${operator} with field "${path}".`);
+        }
+        if (operator === '$min' ? comparison < 0 : comparison > 0) {
+          _.set(target, path, _.cloneDeep(operand));
+        }
+        break;
+      }
+      case '$push':
+      case '$addToSet': {
+        if (exists && !Array.isArray(current)) {
+          throw new Error(`Cannot apply ${operator} to non-array field "${path}".`);
+        }
+        const values = _.isPlainObject(operand) && Object.keys(operand).length === 1 && '$each' in operand
+          ? operand.$each
+          : [operand];
+        if (!Array.isArray(values)) {
+          throw new Error(`Modifier $each of ${operator} requires an array for field "${path}".`);
+        }
+        const array = exists ? current : [];
+        for (const value of values) {
+          if (operator === '$push' || !array.some((element: any) => _.isEqual(element, value))) {
+            array.push(_.cloneDeep(value));
+          }
+        }
+        _.set(target, path, array);
+        break;
+      }
+      case '$pull': {
+        if (!exists) {
+          break;
+        }
+        if (!Array.isArray(current)) {
+          throw new Error(`Cannot apply ${operator} to non-array field "${path}".`);
+        }
+        // 操作符对象匹配元素本身，普通对象按条件匹配对象元素，其他值按相等匹配
+        const matches = (element: any): boolean => {
+          if (operand instanceof RegExp || this._isOperatorObject(operand)) {
+            return this._matchesField(element, operand);
+          }
+          if (_.isPlainObject(operand)) {
+            return _.isPlainObject(element) && this._matchesConditions(element, operand);
+          }
+          return _.isEqual(element, operand);
+        };
+        _.remove(current, matches);
+        break;
+      }
+      case '$rename':
+        if (typeof operand !== 'string') {
+          throw new Error(`Operator $rename requires a string target path for field "${path}".`);
+        }
+        if (exists) {
+          _.unset(target, path);
+          _.set(target, operand, current);
+        }
+        break;
+      default:
+        throw new Error(`Unsupported update operator: ${operator}`);
+    }
+  }
+  
+  /**
+   * 检查删除的路径是否是结构定义中的必填字段
+   * @param {string} key - 写操作的路径，用于错误信息
+   * @param {string[][]} paths - 被删除的完整路径
+   */
+  private _validateRemoval(key: string, paths: string[][]): void {
+    const issues: ValidationIssue[] = [];
+    for (const segments of paths) {
+      _.forEach(this._schemas, ({ schema }, schemaKey) => {
+        const schemaSegments = _.toPath(schemaKey);
+        if (schemaSegments.length >= segments.length || !_.isEqual(segments.slice(0, schemaSegments.length), schemaSegments)) {
+          return;
+        }
+        
+        const parent = getSubSchema(schema, segments.slice(schemaSegments.length, -1));
+        if (parent && parent.required && parent.required.includes(segments[segments.length - 1])) {
+          issues.push({ path: segments.join('.'), keyword: 'required', message: 'is required', value: undefined });
+        }
+      });
+    }
+    
+    if (issues.length > 0) {
+      throw new ValidationError(key, issues);
+    }
+  }
+  
+  /**
+   * 订阅指定路径的变更：路径本身、其子路径或其上级路径被修改时调用回调
+   * @param {string} key - 路径
+   * @param {function} listener - 回调
+   * @returns {function} - 取消订阅的函数
+   */
+  watchKey(key: string, listener: (event: ChangeEvent) => void): () => void {
+    const handler = (event: ChangeEvent) => {
+      if (event.type !== 'transaction' && this._isRelatedPath(event.key, key)) {
+        listener(event);
+      }
+    };
+    this.on('change', handler);
+    return () => {
+      this.off('change', handler);
+    };
+  }
+  
+  /**
+   * 判断两个路径是否相同或存在上下级关系
+   * @param {string} changedKey - 被修改的路径
+   * @param {string} key - 订阅的路径
+   * @returns {boolean} - 是否相关
+   */
+  private _isRelatedPath(changedKey: string, key: string): boolean {
+    const changed = _.toPath(changedKey);
+    const watched = _.toPath(key);
+    const length = Math.min(changed.length, watched.length);
+    return _.isEqual(changed.slice(0, length), watched.slice(0, length));
+  }
+  
+  /**
+   * 是否有变更事件的监听者，没有时跳过记录修改前的副本
+   * @returns {boolean} - 是否有监听者
+   */
+  private _hasChangeListeners(): boolean {
+    return this.listenerCount('change') > 0;
+  }
+  
+  /**
+   * 发出变更事件；事务中先缓存，提交后再发出
+   * @param {string} key - 被修改的路径
+   * @param {ChangeType} type - 操作类型
+   * @param {any} oldValue - 修改前的值
+   * @param {any} newValue - 修改后的值
+   * @param {any[]} records - 受影响的记录，用于提取主键
+   */
+  private _emitChange(key: string, type: ChangeType, oldValue: any, newValue: any, records: any[]): void {
+    if (!this._hasChangeListeners()) {
+      return;
+    }
+    
+    const { field } = this._getPrimaryKeyOptions(key);
+    const ids = records
+      .map(record => _.isObject(record) ? _.get(record, field) : undefined)
+      .filter(id => id !== undefined);
+    const event: ChangeEvent = { key, type, oldValue, newValue, ids };
+    
+    if (this._inTransaction) {
+      this._transactionEvents.push(event);
+    } else {
+      this.emit('change', event);
+    }
+  }
+  
+  /**
+   * 保存未写入的修改并释放文件锁，之后的修改操作会抛出错误
+   */
+  close(): void {
+    if (this._closed) {
+      return;
+    }
+    try {
+      if (!this.options.readOnly && !this._inTransaction) {
+        this.save();
+      }
+    } finally {
+      this._cancelAutoSave();
+      this._stopWatching();
+      this._releaseLock();
+      this._closed = true;
+    }
+  }
+  
+  /**
+   * 检查实例是否允许修改数据
+   */
+  private _assertWritable(): void {
+    if (this._closed) {
+      throw new Error('Database is closed.');
+    }
+    if (this.options.readOnly) {
+      throw new Error(`Database "${this.filePath}" is opened read-only.`);
+    }
+  }
+  
+  /**
+   * 获取文件锁配置
+   * @returns {Required<LockOptions>} - 锁配置
+   */
+  private _getLockOptions(): Required<LockOptions> {
+    const lock = this.options.lock;
+    return {
+      timeout: 0,
+      retryInterval: 100,
+      staleMs: 30000,
+      ...(typeof lock === 'object' ? lock : {})
+    };
+  }
+  
+  /**
+   * 通过存储获取独占锁，进程退出时自动释放
+   */
+  private _acquireLock(): void {
+    (this.storage.lock as NonNullable<StorageAdapter['lock']>).call(this.storage, this._getLockOptions());
+    this._lockHeld = true;
+    lockHolders.add(this);
+    installExitHandlers();
+  }
+  
+  /**
+   * 释放持有的锁
+   */
+  private _releaseLock(): void {
+    if (!this._lockHeld) {
+      return;
+    }
+    
+    this._lockHeld = false;
+    lockHolders.delete(this);
+    if (this.storage.unlock) {
+      this.storage.unlock();
+    }
+  }
+  
+  /**
+   * 用新密钥重新加密数据文件和日志；传入 null 时改为明文保存，也可以用来加密尚未加密的数据库
+   * @param {EncryptionKey|EncryptionKeyProvider|null} key - 新密钥或返回新密钥的函数
+   * @returns {NodedbJson} - 实例，支持链式调用
+   */
+  rotateEncryptionKey(key: EncryptionKey | EncryptionKeyProvider | null): NodedbJson {
+    this._assertWritable();
+    if (this._inTransaction) {
+      throw new Error('Cannot rotate the encryption key inside a transaction.');
+    }
+    
+    // 多文件模式下先用旧密钥读取所有未加载的键
+    Array.from(this._unloadedKeys).forEach(unloadedKey => this._ensureLoaded(unloadedKey));
+    
+    if (key === null) {
+      this.options.encryption = undefined;
+    } else {
+      resolveKey(key);
+      this.options.encryption = { ...this.options.encryption, key };
+    }
+    
+    // 重写整个数据文件并清空日志；旧备份用旧密钥加密，换成新内容
+    let storages = [this.storage];
+    if (this.options.multiFile) {
+      const keys = Object.keys(this.data);
+      keys.forEach(dataKey => {
+        this._markChanged(dataKey);
+        this._skipBackupKeys.add(dataKey);
+      });
+      storages = keys.map(dataKey => this._getKeyStorage(dataKey));
+    } else {
+      this._skipNextBackup = true;
+    }
+    this.writeJSONFile();
+    if (this.options.backup) {
+      storages.forEach(storage => {
+        const content = storage.read('data');
+        if (content !== undefined) {
+          storage.write('backup', content);
+        }
+      });
+    }
+    return this;
+  }
+  
+  /**
+   * 把预写日志压缩到数据文件：写入完整快照并清空日志
+   * @returns {NodedbJson} - 实例，支持链式调用
+   */
+  compact(): NodedbJson {
+    this._assertWritable();
+    if (this._inTransaction) {
+      throw new Error('Cannot compact inside a transaction.');
+    }
+    this.writeJSONFile();
+    return this;
+  }
+  
+  /**
+   * 把当前数据（包括尚未保存的修改）和索引定义写入快照，快照本身可以作为数据库打开
+   * 数据在同一时刻序列化，不需要停止写入；启用加密时快照同样加密
+   * @param {string|StorageAdapter} dest - 快照文件路径或存储；timestamped 时为快照目录
+   * @param {SnapshotOptions} [options] - 快照选项
+   * @returns {SnapshotInfo} - 快照位置和时间
+   */
+  snapshot(dest: string | StorageAdapter, options: SnapshotOptions = {}): SnapshotInfo {
+    if (this._inTransaction) {
+      throw new Error('Cannot take a snapshot inside a transaction.');
+    }
+    if (options.timestamped && typeof dest !== 'string') {
+      throw new Error('Timestamped snapshots need a directory path.');
+    }
+    if (options.retain !== undefined && (!options.timestamped || !Number.isInteger(options.retain) || options.retain < 1)) {
+      throw new Error('The retain option must be a positive integer and requires timestamped snapshots.');
+    }
+    
+    // 多文件模式下快照包含所有键
+    Array.from(this._unloadedKeys).forEach(key => this._ensureLoaded(key));
+    
+    const createdAt = new Date();
+    const content = this._serialize(this.data);
+    const indexDefinitions = JSON.stringify(this._indexDefinitions, null, 2);
+    const storage = typeof dest === 'string'
+      ? new FileStorageAdapter(options.timestamped ? createSnapshotPath(dest, createdAt) : dest)
+      : dest;
+    
+    // 先写索引定义再写数据，快照数据存在时索引定义一定已经写入
+    try {
+      if (Object.keys(this._indexDefinitions).length > 0) {
+        storage.write('indexes', indexDefinitions);
+      } else {
+        storage.remove('indexes');
+      }
+      storage.write('data', content);
+    } catch (error) {
+      // 删除占位的空快照文件，否则它会作为最新的快照被列出，并在清理时挤掉完好的快照
+      if (options.timestamped) {
+        storage.remove('data');
+        storage.remove('indexes');
+      }
+      throw error;
+    }
+    
+    if (options.retain !== undefined) {
+      listSnapshots(dest as string).slice(0, -options.retain).forEach(snapshotPath => {
+        const expired = new FileStorageAdapter(snapshotPath);
+        expired.remove('data');
+        expired.remove('indexes');
+      });
+    }
+    
+    return {
+      location: storage.locate ? storage.locate('data') : storage.location,
+      createdAt: createdAt.toISOString()
+    };
+  }
+  
+  /**
+   * 用快照替换当前数据和索引定义并重建索引，结果立即写入；未保存的修改会被丢弃
+   * 快照数据按注册的结构定义逐个顶层键校验，替换的键发出 set 变更事件
+   * 快照的版本低于迁移列表时执行剩余的迁移
+   * @param {string|StorageAdapter} src - 快照文件路径或存储
+   * @returns {NodedbJson} - 实例，支持链式调用
+   */
+  restore(src: string | StorageAdapter): NodedbJson {
+    this._assertWritable();
+    if (this._inTransaction) {
+      throw new Error('Cannot restore inside a transaction.');
+    }
+    
+    const storage = typeof src === 'string' ? new FileStorageAdapter(src) : src;
+    const content = storage.read('data');
+    if (content === undefined) {
+      throw new Error(`Snapshot does not exist: ${storage.location}`);
+    }
+    const data = this._parseContent(content);
+    const indexes = storage.read('indexes');
+    let indexDefinitions: Record<string, Record<string, IndexDefinition>> = {};
+    if (indexes !== undefined) {
+      try {
+        indexDefinitions = JSON.parse(indexes);
+      } catch (error) {
+        throw new Error(`Failed to load index definitions from snapshot "${storage.location}": ${(error as Error).message}`);
+      }
+    }
+    
+    const migrations = this.options.migrations;
+    const version = _.get(data, this._getVersionKey());
+    if (migrations && Number.isInteger(version) && version > migrations.length) {
+      throw new SchemaVersionError(storage.location, version, migrations.length);
+    }
+    
+    // 替换前校验，失败时当前数据保持不变
+    Object.keys(data).forEach(key => {
+      [data[key]] = this._validateWrites(key, [[key, data[key]]]);
+    });
+    
+    // 索引重建失败（如违反唯一约束）时保留原数据
+    const previous = {
+      data: this.data,
+      indexDefinitions: this._indexDefinitions,
+      unloadedKeys: this._unloadedKeys
+    };
+    const replacedKeys = [...Object.keys(this.data), ...Array.from(this._unloadedKeys)];
+    this.data = data;
+    this._indexDefinitions = indexDefinitions;
+    this._unloadedKeys = new Set();
+    try {
+      if (this.options.enableIndexing) {
+        this._rebuildAllIndexes();
+      }
+    } catch (error) {
+      this.data = previous.data;
+      this._indexDefinitions = previous.indexDefinitions;
+      this._unloadedKeys = previous.unloadedKeys;
+      if (this.options.enableIndexing) {
+        this._rebuildAllIndexes();
+      }
+      throw error;
+    }
+    
+    // 多文件模式下快照中没有的键会删除其文件
+    this._idCounters = {};
+    this._journalBuffer = [];
+    this._pendingChanges = {};
+    _.union(replacedKeys, Object.keys(data)).forEach(key => this._markChanged(key));
+    this.writeJSONFile();
+    this._saveIndexDefinitions();
+    
+    // 多文件模式下未加载的键没有旧值
+    if (this._hasChangeListeners()) {
+      _.union(replacedKeys, Object.keys(data)).forEach(key => {
+        const oldValue = previous.data[key];
+        const newValue = data[key];
+        if (!_.isEqual(oldValue, newValue)) {
+          this._emitChange(key, 'set', oldValue, newValue, Array.isArray(newValue) ? newValue : []);
+        }
+      });
+    }
+    
+    if (migrations) {
+      this._runMigrations(migrations);
+    }
+    return this;
+  }
+  
+  /**
+   * 原地删除数组中满足条件的记录，并把删除的位置记录到日志
+   * 先确定全部要删除的位置再修改数组，条件函数抛出异常时数组保持不变
+   * @param {string} key - 集合路径
+   * @param {any[]} data - 数组
+   * @param {function} predicate - 删除条件
+   * @returns {any[]} - 被删除的记录
+   */
+  private _removeItems(key: string, data: any[], predicate: (item: any) => boolean): any[] {
+    const positions: number[] = [];
+    data.forEach((item, i) => {
+      if (predicate(item)) {
+        positions.push(i);
+      }
+    });
+    if (positions.length === 0) {
+      return [];
+    }
+    
+    const removed = _.pullAt(data, positions);
+    this._recordJournal({ op: 'remove', key, positions });
+    return removed;
+  }
+  
+  /**
+   * 在事务中执行回调：回调抛出异常时数据和索引全部回滚，成功时只写入一次文件
+   * 嵌套调用会并入最外层事务
+   * @param {function} fn - 事务回调，必须是同步函数
+   * @returns {R} - 回调的返回值
+   */
+  transaction<R>(fn: (db: NodedbJson) => R): R {
+    if (this._inTransaction) {
+      return fn(this);
+    }
+    
+    const snapshot = {
+      data: _.cloneDeep(this.data),
+      indexDefinitions: _.cloneDeep(this._indexDefinitions),
+      idCounters: { ...this._idCounters },
+      pendingChanges: { ...this._pendingChanges },
+      unloadedKeys: new Set(this._unloadedKeys),
+      journalLength: this._journalBuffer.length
+    };
+    this._transactionEvents = [];
+    const originalAutoSave = this.options.autoSave;
+    this.options.autoSave = false;
+    this._inTransaction = true;
+    
+    let result: R;
+    try {
+      result = fn(this);
+      if (result && typeof (result as any).then === 'function') {
+        throw new Error('Transaction callback must be synchronous.');
+      }
+    } catch (error) {
+      // 恢复快照；索引项引用的是旧记录对象，需要按恢复后的数据重建
+      this.data = snapshot.data;
+      this._idCounters = snapshot.idCounters;
+      this._pendingChanges = snapshot.pendingChanges;
+      this._unloadedKeys = snapshot.unloadedKeys;
+      this._journalBuffer.length = snapshot.journalLength;
+      this._transactionEvents = [];
+      if (!_.isEqual(this._indexDefinitions, snapshot.indexDefinitions)) {
+        this._indexDefinitions = snapshot.indexDefinitions;
+        this._saveIndexDefinitions();
+      }
+      if (this.options.enableIndexing) {
+        this._rebuildAllIndexes();
+      }
+      throw error;
+    } finally {
+      this._inTransaction = false;
+      this.options.autoSave = originalAutoSave;
+    }
+    
+    if (!_.isEqual(this._pendingChanges, snapshot.pendingChanges)) {
+      this._autoSave();
+    }
+    
+    // 提交后才发出事务中的变更事件，回滚的修改不会被监听者看到
+    const changes = this._transactionEvents;
+    this._transactionEvents = [];
+    if (changes.length > 0) {
+      changes.forEach(event => this.emit('change', event));
+      this.emit('change', { key: '', type: 'transaction', oldValue: undefined, newValue: undefined, ids: _.flatMap(changes, event => event.ids), changes });
+    }
+    return result;
+  }
+  
+  /**
+   * Executes multiple operations in batch as a single transaction.
+   * @param {Array<{method: string, args: any[]}>} operations - Array of operations to execute.
+   * @returns {NodedbJson} - The instance of the database for chaining.
+   */
+  batch(operations: Array<{method: string, args: any[]}>): NodedbJson {
+    // 先校验全部操作，避免执行到一半才发现无效方法
+    const unknown = operations.find(op => !BATCH_METHODS.includes(op.method));
+    if (unknown) {
+      throw new Error(`Unknown batch method: "${unknown.method}"`);
+    }
+    
+    this.transaction(() => {
+      operations.forEach(({ method, args }) => {
+        (this[method as keyof NodedbJson] as Function).apply(this, args);
+      });
+    });
+    
+    if (!this._inTransaction) {
+      this.save();
+    }
+    return this;
+  }
+  
+  /**
+   * 创建一个索引
+   * @param {string} key - 要索引的集合路径
+   * @param {IndexDefinition} indexDefinition - 索引定义
+   * @returns {NodedbJson} - 实例，支持链式调用
+   */
+  createIndex(key: string, indexDefinition: IndexDefinition): NodedbJson {
+    if (!this.options.enableIndexing) {
+      throw new Error('Indexing is not enabled. Set enableIndexing option to true.');
+    }
+    
+    const data = this.get(key);
+    if (!Array.isArray(data)) {
+      throw new Error(`Cannot create index on non-array data at "${key}"`);
+    }
+    
+    const fields = this._getIndexFields(indexDefinition);
+    if (fields.length === 0) {
+      throw new Error('Index definition requires at least one field.');
+    }
+    if (indexDefinition.type === 'sorted' && fields.length > 1) {
+      throw new Error('Sorted indexes support a single field only.');
+    }
+    
+    // 保存索引定义
+    if (!this._indexDefinitions[key]) {
+      this._indexDefinitions[key] = {};
+    }
+    
+    const indexName = this._getIndexName(indexDefinition);
+    const previousDefinition = this._indexDefinitions[key][indexName];
+    this._indexDefinitions[key][indexName] = indexDefinition;
+    
+    // 创建索引；现有数据违反唯一约束时恢复原有定义
+    try {
+      this._buildIndex(key, indexDefinition);
+    } catch (error) {
+      if (previousDefinition) {
+        this._indexDefinitions[key][indexName] = previousDefinition;
+        this._buildIndex(key, previousDefinition);
+      } else {
+        this.dropIndex(key, indexName);
+      }
+      throw error;
+    }
+    this._saveIndexDefinitions();
+    
+    return this;
+  }
+  
+  /**
+   * 删除索引
+   * @param {string} key - 集合路径
+   * @param {string|string[]} fieldOrFields - 字段名，复合索引传入字段列表
+   * @returns {NodedbJson} - 实例，支持链式调用
+   */
+  dropIndex(key: string, fieldOrFields: string | string[]): NodedbJson {
+    if (!this.options.enableIndexing) {
+      return this;
+    }
+    
+    const field = this._getIndexName({ type: 'multi', field: fieldOrFields });
+    
+    if (this._indexDefinitions[key] && this._indexDefinitions[key][field]) {
+      delete this._indexDefinitions[key][field];
+      
+      // 如果没有索引了，删除整个键
+      if (Object.keys(this._indexDefinitions[key]).length === 0) {
+        delete this._indexDefinitions[key];
+      }
+      
+      // 删除索引数据
+      const indexKey = `${key}:${field}`;
+      if (this._indexes[indexKey]) {
+        delete this._indexes[indexKey];
+      }
+      delete this._arrayValuedItems[indexKey];
+      
+      this._saveIndexDefinitions();
+    }
+    
+    return this;
+  }
+  
+  /**
+   * 获取所有索引信息
+   * @returns {Record<string, Record<string, IndexDefinition>>} - 索引定义
+   */
+  getIndexes(): Record<string, Record<string, IndexDefinition>> {
+    return _.cloneDeep(this._indexDefinitions);
+  }
+  
+  /**
+   * 获取索引定义的字段列表
+   * @param {IndexDefinition} indexDef - 索引定义
+   * @returns {string[]} - 字段列表
+   */
+  private _getIndexFields(indexDef: IndexDefinition): string[] {
+    return Array.isArray(indexDef.field) ? indexDef.field : [indexDef.field];
+  }
+  
+  /**
+   * 获取索引名称：单字段索引为字段名，复合索引为以 + 连接的字段列表
+   * @param {IndexDefinition} indexDef - 索引定义
+   * @returns {string} - 索引名称
+   */
+  private _getIndexName(indexDef: IndexDefinition): string {
+    return this._getIndexFields(indexDef).join('+');
+  }
+  
+  /**
+   * 检查指定路径是否有索引定义
+   * @param {string} key - 集合路径
+   * @returns {boolean} - 是否有索引
+   */
+  private _hasIndexDefinition(key: string): boolean {
+    return !!this._indexDefinitions[key] && Object.keys(this._indexDefinitions[key]).length > 0;
+  }
+  
+  /**
+   * 检查指定路径的指定字段是否有索引
+   * @param {string} key - 集合路径
+   * @param {string} field - 字段名
+   * @returns {boolean} - 是否有索引
+   */
+  private _hasIndexOnField(key: string, field: string): boolean {
+    return !!this._indexDefinitions[key] && !!this._indexDefinitions[key][field];
+  }
+  
+  /**
+   * 获取受指定路径修改影响的索引集合路径
+   * @param {string} key - 被修改的路径
+   * @returns {string[]} - 受影响的集合路径
+   */
+  private _getAffectedIndexKeys(key: string): string[] {
+    if (!this.options.enableIndexing) {
+      return [];
+    }
+    
+    return Object.keys(this._indexDefinitions).filter(indexedKey =>
+      indexedKey === key ||
+      key.startsWith(`${indexedKey}.`) ||
+      key.startsWith(`${indexedKey}[`) ||
+      indexedKey.startsWith(`${key}.`)
+    );
+  }
+  
+  /**
+   * 重建指定集合的索引，违反唯一约束时执行回滚并恢复索引
+   * @param {string[]} keys - 集合路径
+   * @param {function} rollback - 撤销数据修改的回调
+   */
+  private _rebuildIndexesOrRollback(keys: string[], rollback: () => void): void {
+    try {
+      keys.forEach(key => this._rebuildIndexesForKey(key));
+    } catch (error) {
+      rollback();
+      keys.forEach(key => this._rebuildIndexesForKey(key));
+      throw error;
+    }
+  }
+  
+  /**
+   * 重建所有索引
+   */
+  private _rebuildAllIndexes(): void {
+    // 清空所有索引
+    this._indexes = {};
+    this._arrayValuedItems = {};
+    
+    // 重建每个定义的索引
+    for (const key in this._indexDefinitions) {
+      for (const field in this._indexDefinitions[key]) {
+        this._buildIndex(key, this._indexDefinitions[key][field]);
+      }
+    }
+  }
+  
+  /**
+   * 重建指定路径的所有索引
+   * @param {string} key - 集合路径
+   */
+  private _rebuildIndexesForKey(key: string): void {
+    if (!this._indexDefinitions[key]) {
+      return;
+    }
+    
+    // 重建该路径的所有索引
+    for (const field in this._indexDefinitions[key]) {
+      this._buildIndex(key, this._indexDefinitions[key][field]);
+    }
+  }
+  
+  /**
+   * 构建索引
+   * @param {string} key - 集合路径
+   * @param {IndexDefinition} indexDef - 索引定义
+   */
+  private _buildIndex(key: string, indexDef: IndexDefinition): void {
+    const indexKey = `${key}:${this._getIndexName(indexDef)}`;
+    this._indexes[indexKey] = indexDef.type === 'sorted'
+      ? { entries: [], missing: new Set() }
+      : new Map();
+    this._arrayValuedItems[indexKey] = new Set();
+    
+    const data = this.get(key);
+    if (!Array.isArray(data)) {
+      return;
+    }
+    
+    // 有序索引整体排序后分组构建，逐条插入有序数组的代价随记录数平方增长
+    const index = this._indexes[indexKey];
+    if (!(index instanceof Map)) {
+      this._fillSortedIndex(index, indexDef, data);
+      data.forEach(item => this._trackArrayValue(indexKey, indexDef, item));
+      return;
+    }
+    
+    // 遍历数组构建索引
+    data.forEach(item => this._addToIndex(key, indexDef, item));
+  }
+  
+  /**
+   * 获取记录在索引字段上的值，字段名支持点号分隔的嵌套路径
+   * 多键索引中数组字段的每个元素各作为一个值
+   * @param {any} item - 数据项
+   * @param {string} field - 字段路径
+   * @param {IndexDefinition} indexDef - 索引定义
+   * @returns {any[]} - 字段值，缺失时返回空数组
+   */
+  private _getFieldIndexValues(item: any, field: string, indexDef: IndexDefinition): any[] {
+    if (!item || typeof item !== 'object') {
+      return [];
+    }
+    
+    const fieldValue = _.get(item, field);
+    if (fieldValue === undefined || fieldValue === null) {
+      return [];
+    }
+    
+    if (indexDef.multikey && Array.isArray(fieldValue)) {
+      return fieldValue.filter(value => value !== undefined && value !== null);
+    }
+    return [fieldValue];
+  }
+  
+  /**
+   * 按字段前缀获取记录的索引值组合：第 i 层为前 i + 1 个字段的所有取值组合，每个值已编码为索引键
+   * @param {any} item - 数据项
+   * @param {IndexDefinition} indexDef - 索引定义
+   * @returns {string[][][]} - 各层的取值组合，遇到缺失字段时停止
+   */
+  private _getIndexTupleLayers(item: any, indexDef: IndexDefinition): string[][][] {
+    const layers: string[][][] = [];
+    let tuples: string[][] = [[]];
+    
+    for (const field of this._getIndexFields(indexDef)) {
+      const values = _.uniq(this._getFieldIndexValues(item, field, indexDef).map(value => this._encodeIndexValue(value)));
+      if (values.length === 0) {
+        break;
+      }
+      tuples = _.flatMap(tuples, tuple => values.map(value => [...tuple, value]));
+      layers.push(tuples);
+    }
+    return layers;
+  }
+  
+  /**
+   * 获取记录在哈希索引中的键
+   * 复合索引为字段值的每个前缀各生成一个键，以支持按前缀查找
+   * @param {any} item - 数据项
+   * @param {IndexDefinition} indexDef - 索引定义
+   * @returns {string[]} - 索引键，不可索引时返回空数组
+   */
+  private _getIndexEntries(item: any, indexDef: IndexDefinition): string[] {
+    const layers = this._getIndexTupleLayers(item, indexDef);
+    if (this._getIndexFields(indexDef).length === 1) {
+      return layers.length > 0 ? layers[0].map(tuple => tuple[0]) : [];
+    }
+    return _.flatMap(layers, tuples => tuples.map(tuple => this._encodeIndexTuple(tuple)));
+  }
+  
+  /**
+   * 获取记录在唯一索引中用于约束检查的键（完整的字段组合）
+   * @param {any} item - 数据项
+   * @param {IndexDefinition} indexDef - 索引定义
+   * @returns {string[]} - 索引键，字段缺失时返回空数组
+   */
+  private _getUniqueEntries(item: any, indexDef: IndexDefinition): string[] {
+    const fields = this._getIndexFields(indexDef);
+    const layers = this._getIndexTupleLayers(item, indexDef);
+    if (layers.length !== fields.length) {
+      return [];
+    }
+    return layers[layers.length - 1].map(tuple => fields.length === 1 ? tuple[0] : this._encodeIndexTuple(tuple));
+  }
+  
+  /**
+   * 获取记录的索引字段值，复合索引返回值列表
+   * @param {any} item - 数据项
+   * @param {IndexDefinition} indexDef - 索引定义
+   * @returns {any} - 字段值
+   */
+  private _getIndexedValue(item: any, indexDef: IndexDefinition): any {
+    const fields = this._getIndexFields(indexDef);
+    return fields.length === 1 ? _.get(item, fields[0]) : fields.map(field => _.get(item, field));
+  }
+  
+  /**
+   * 将字段值编码为哈希索引键，键中包含值的类型，1 和 '1' 是不同的键
+   * @param {any} value - 字段值
+   * @returns {string} - 索引键
+   */
+  private _encodeIndexValue(value: any): string {
+    if (value instanceof Date) {
+      return `date:${value.getTime()}`;
+    }
+    return typeof value === 'object' ? `object:${JSON.stringify(value)}` : `${typeof value}:${String(value)}`;
+  }
+  
+  /**
+   * 将复合索引中已编码的字段值前缀组合为索引键
+   * @param {string[]} keys - 各字段值的索引键
+   * @returns {string} - 索引键
+   */
+  private _encodeIndexTuple(keys: string[]): string {
+    return JSON.stringify(keys);
+  }
+  
+  /**
+   * 将一条记录加入单个索引
+   * @param {string} key - 集合路径
+   * @param {IndexDefinition} indexDef - 索引定义
+   * @param {any} item - 数据项
+   */
+  private _addToIndex(key: string, indexDef: IndexDefinition, item: any): void {
+    const indexKey = `${key}:${this._getIndexName(indexDef)}`;
+    const index = this._indexes[indexKey];
+    if (!(index instanceof Map)) {
+      this._addToSortedIndex(index, indexDef, item);
+      this._trackArrayValue(indexKey, indexDef, item);
+      return;
+    }
+    
+    // 唯一索引
+    if (indexDef.type === 'unique') {
+      for (const uniqueEntry of this._getUniqueEntries(item, indexDef)) {
+        const existing = index.get(uniqueEntry);
+        if (existing && existing.size > 0 && !existing.has(item)) {
+          throw new UniqueConstraintError(key, this._getIndexName(indexDef), this._getIndexedValue(item, indexDef));
+        }
+      }
+    }
+    
+    for (const entry of this._getIndexEntries(item, indexDef)) {
+      let items = index.get(entry);
+      if (!items) {
+        items = new Set();
+        index.set(entry, items);
+      }
+      items.add(item);
+    }
+    this._trackArrayValue(indexKey, indexDef, item);
+  }
+  
+  /**
+   * 记录非多键索引中字段值为数组的记录：这些记录以整个数组为索引键，按元素匹配的查询不能使用该索引
+   * @param {string} indexKey - 索引键
+   * @param {IndexDefinition} indexDef - 索引定义
+   * @param {any} item - 数据项
+   */
+  private _trackArrayValue(indexKey: string, indexDef: IndexDefinition, item: any): void {
+    if (indexDef.multikey || !item || typeof item !== 'object') {
+      return;
+    }
+    if (this._getIndexFields(indexDef).some(field => Array.isArray(_.get(item, field)))) {
+      this._arrayValuedItems[indexKey].add(item);
+    }
+  }
+  
+  /**
+   * 检查索引中是否有字段值为数组的记录（仅非多键索引）
+   * @param {string} key - 集合路径
+   * @param {string} name - 索引名
+   * @returns {boolean} - 是否有数组字段值
+   */
+  private _indexHoldsArrays(key: string, name: string): boolean {
+    const items = this._arrayValuedItems[`${key}:${name}`];
+    return !!items && items.size > 0;
+  }
+  
+  /**
+   * 将一条记录加入有序索引
+   * @param {SortedIndex} index - 有序索引
+   * @param {IndexDefinition} indexDef - 索引定义
+   * @param {any} item - 数据项
+   */
+  private _addToSortedIndex(index: SortedIndex, indexDef: IndexDefinition, item: any): void {
+    const values = this._getSortedIndexValues(item, indexDef);
+    if (values.length === 0) {
+      index.missing.add(item);
+      return;
+    }
+    
+    for (const value of values) {
+      const position = this._findSortedPosition(index.entries, entryValue => this._compareIndexValues(entryValue, value));
+      const entry = index.entries[position];
+      if (entry && this._compareIndexValues(entry.value, value) === 0) {
+        entry.items.add(item);
+      } else {
+        index.entries.splice(position, 0, { value, items: new Set([item]) });
+      }
+    }
+  }
+  
+  /**
+   * 用一批记录填充空的有序索引：收集所有值后排序一次，再把相等的值合并为一个条目
+   * @param {SortedIndex} index - 空的有序索引
+   * @param {IndexDefinition} indexDef - 索引定义
+   * @param {any[]} items - 数据项
+   */
+  private _fillSortedIndex(index: SortedIndex, indexDef: IndexDefinition, items: any[]): void {
+    const pairs: Array<{ value: any, item: any }> = [];
+    for (const item of items) {
+      const values = this._getSortedIndexValues(item, indexDef);
+      if (values.length === 0) {
+        index.missing.add(item);
+      }
+      values.forEach(value => pairs.push({ value, item }));
+    }
+    
+    // 排序是稳定的，同一条目中的记录保持数组中的顺序
+    pairs.sort((a, b) => this._compareIndexValues(a.value, b.value));
+    for (const { value, item } of pairs) {
+      const last = index.entries[index.entries.length - 1];
+      if (last && this._compareIndexValues(last.value, value) === 0) {
+        last.items.add(item);
+      } else {
+        index.entries.push({ value, items: new Set([item]) });
+      }
+    }
+  }
+  
+  /**
+   * 从有序索引中移除一条记录
+   * @param {SortedIndex} index - 有序索引
+   * @param {IndexDefinition} indexDef - 索引定义
+   * @param {any} item - 数据项
+   */
+  private _removeFromSortedIndex(index: SortedIndex, indexDef: IndexDefinition, item: any): void {
+    const values = this._getSortedIndexValues(item, indexDef);
+    if (values.length === 0) {
+      index.missing.delete(item);
+      return;
+    }
+    
+    for (const value of values) {
+      const position = this._findSortedPosition(index.entries, entryValue => this._compareIndexValues(entryValue, value));
+      const entry = index.entries[position];
+      if (entry && this._compareIndexValues(entry.value, value) === 0) {
+        entry.items.delete(item);
+        if (entry.items.size === 0) {
+          index.entries.splice(position, 1);
+        }
+      }
+    }
+  }
+  
+  /**
+   * 获取记录在有序索引中的值
+   * @param {any} item - 数据项
+   * @param {IndexDefinition} indexDef - 索引定义
+   * @returns {any[]} - 可排序的值，缺失或无法排序时返回空数组
+   */
+  private _getSortedIndexValues(item: any, indexDef: IndexDefinition): any[] {
+    const values = this._getFieldIndexValues(item, this._getIndexName(indexDef), indexDef)
+      .map(value => this._toSortableValue(value))
+      .filter(value => value !== undefined);
+    return _.uniqWith(values, (a, b) => this._compareIndexValues(a, b) === 0);
+  }
+  
+  /**
+   * 将值转换为有序索引使用的可比较值，日期转换为时间戳
+   * @param {any} value - 原始值
+   * @returns {any} - 数字、字符串或布尔值，无法比较时返回 undefined
+   */
+  private _toSortableValue(value: any): any {
+    if (value instanceof Date) {
+      return value.getTime();
     }
-    return this;
+    if ((typeof value === 'number' && !Number.isNaN(value)) || typeof value === 'string' || typeof value === 'boolean') {
+      return value;
+    }
+    return undefined;
   }
   
   /**
-   * Executes multiple operations in batch.
-   * @param {Array<{method: string, args: any[]}>} operations - Array of operations to execute.
-   * @returns {NodedbJson} - The instance of the database for chaining.
+   * 有序索引中值的全序比较：先按类型（数字 < 字符串 < 布尔值），再按值
+   * @param {any} a - 值 a
+   * @param {any} b - 值 b
+   * @returns {number} - 比较结果
    */
-  batch(operations: Array<{method: string, args: any[]}>): NodedbJson {
-    const originalAutoSave = this.options.autoSave;
-    this.options.autoSave = false;
-    
-    try {
-      operations.forEach(op => {
-        const { method, args } = op;
-        if (typeof this[method as keyof NodedbJson] === 'function') {
-          (this[method as keyof NodedbJson] as Function).apply(this, args);
-        }
-      });
-      
-      this.writeJSONFile();
-    } finally {
-      this.options.autoSave = originalAutoSave;
+  private _compareIndexValues(a: any, b: any): number {
+    const rankDiff = this._getSortableRank(a) - this._getSortableRank(b);
+    if (rankDiff !== 0) {
+      return rankDiff;
     }
-    
-    return this;
+    return a < b ? -1 : a > b ? 1 : 0;
   }
   
   /**
-   * 创建一个索引
-   * @param {string} key - 要索引的集合路径
-   * @param {IndexDefinition} indexDefinition - 索引定义
-   * @returns {NodedbJson} - 实例，支持链式调用
+   * 获取可比较值的类型顺序
+   * @param {any} value - 可比较值
+   * @returns {number} - 类型顺序
    */
-  createIndex(key: string, indexDefinition: IndexDefinition): NodedbJson {
-    if (!this.options.enableIndexing) {
-      throw new Error('Indexing is not enabled. Set enableIndexing option to true.');
-    }
-    
-    const data = this.get(key);
-    if (!Array.isArray(data)) {
-      throw new Error(`Cannot create index on non-array data at "${key}"`);
-    }
-    
-    // 保存索引定义
-    if (!this._indexDefinitions[key]) {
-      this._indexDefinitions[key] = {};
+  private _getSortableRank(value: any): number {
+    return typeof value === 'number' ? 0 : typeof value === 'string' ? 1 : 2;
+  }
+  
+  /**
+   * 二分查找第一个不小于目标的条目位置
+   * @param {SortedIndexEntry[]} entries - 有序条目
+   * @param {function} compare - 条目值与目标的比较函数
+   * @returns {number} - 条目位置
+   */
+  private _findSortedPosition(entries: SortedIndexEntry[], compare: (entryValue: any) => number): number {
+    let low = 0;
+    let high = entries.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (compare(entries[middle].value) < 0) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
     }
-    
-    this._indexDefinitions[key][indexDefinition.field] = indexDefinition;
-    
-    // 创建索引
-    this._buildIndex(key, indexDefinition);
-    
-    return this;
+    return low;
   }
   
   /**
-   * 删除索引
-   * @param {string} key - 集合路径
-   * @param {string} field - 字段名
-   * @returns {NodedbJson} - 实例，支持链式调用
+   * 在有序索引中按范围条件查找记录，结果按字段值升序排列
+   * @param {SortedIndex} index - 有序索引
+   * @param {FieldOperators} range - 只包含 $gt/$gte/$lt/$lte 的范围条件
+   * @returns {any[]} - 匹配的记录
    */
-  dropIndex(key: string, field: string): NodedbJson {
-    if (!this.options.enableIndexing) {
-      return this;
+  private _scanSortedIndex(index: SortedIndex, range: FieldOperators): any[] {
+    const lower = range.$gte !== undefined ? range.$gte : range.$gt;
+    const upper = range.$lte !== undefined ? range.$lte : range.$lt;
+    const bound = this._toSortableValue(lower !== undefined ? lower : upper);
+    if (bound === undefined) {
+      return [];
     }
     
-    if (this._indexDefinitions[key] && this._indexDefinitions[key][field]) {
-      delete this._indexDefinitions[key][field];
-      
-      // 如果没有索引了，删除整个键
-      if (Object.keys(this._indexDefinitions[key]).length === 0) {
-        delete this._indexDefinitions[key];
+    // 有下界时从下界开始，否则从同类型的第一个条目开始
+    const rank = this._getSortableRank(bound);
+    const start = lower !== undefined
+      ? this._findSortedPosition(index.entries, entryValue => this._compareIndexValues(entryValue, bound))
+      : this._findSortedPosition(index.entries, entryValue => this._getSortableRank(entryValue) - rank);
+    const upperValue = this._toSortableValue(upper);
+    
+    // 多键索引中同一条记录可能出现在多个条目中
+    const result = new Set<any>();
+    for (let i = start; i < index.entries.length; i++) {
+      const entry = index.entries[i];
+      if (this._getSortableRank(entry.value) !== rank) {
+        break;
       }
-      
-      // 删除索引数据
-      const indexKey = `${key}:${field}`;
-      if (this._indexes[indexKey]) {
-        delete this._indexes[indexKey];
+      if (upperValue !== undefined && this._compareIndexValues(entry.value, upperValue) > 0) {
+        break;
+      }
+      if (this._matchesField(entry.value, range)) {
+        entry.items.forEach(item => result.add(item));
       }
     }
-    
-    return this;
+    return Array.from(result);
   }
   
   /**
-   * 获取所有索引信息
-   * @returns {Record<string, Record<string, IndexDefinition>>} - 索引定义
+   * 按有序索引的顺序遍历记录，字段值缺失的记录与 lodash 排序一致：升序在后，降序在前
+   * @param {SortedIndex} index - 有序索引
+   * @param {SortDirection} direction - 排序方向
+   * @param {number} [limit] - 最多返回的记录数
+   * @returns {any[]} - 排序后的记录
    */
-  getIndexes(): Record<string, Record<string, IndexDefinition>> {
-    return _.cloneDeep(this._indexDefinitions);
+  private _traverseSortedIndex(index: SortedIndex, direction: SortDirection, limit?: number): any[] {
+    const max = limit && limit > 0 ? limit : Infinity;
+    const result: any[] = [];
+    const collect = (items: Iterable<any>): boolean => {
+      for (const item of items) {
+        if (result.length >= max) {
+          return false;
+        }
+        result.push(item);
+      }
+      return result.length < max;
+    };
+    
+    if (direction === 'desc') {
+      if (collect(index.missing)) {
+        for (let i = index.entries.length - 1; i >= 0 && collect(index.entries[i].items); i--);
+      }
+    } else {
+      let i = 0;
+      for (; i < index.entries.length && collect(index.entries[i].items); i++);
+      if (i === index.entries.length) {
+        collect(index.missing);
+      }
+    }
+    return result;
   }
   
   /**
-   * 检查指定路径是否有索引定义
+   * 获取可用于排序的有序索引：排序只有一个字段且该字段有有序索引
    * @param {string} key - 集合路径
-   * @returns {boolean} - 是否有索引
+   * @param {SortOption | SortOption[]} sort - 排序选项
+   * @returns {SortedIndex | undefined} - 有序索引
    */
-  private _hasIndexDefinition(key: string): boolean {
-    return !!this._indexDefinitions[key] && Object.keys(this._indexDefinitions[key]).length > 0;
+  private _getSortIndex(key: string, sort: SortOption | SortOption[]): SortedIndex | undefined {
+    const sortOptions = Array.isArray(sort) ? sort : [sort];
+    if (!this.options.enableIndexing || sortOptions.length !== 1) {
+      return undefined;
+    }
+    
+    // 多键索引中一条记录对应多个值，无法直接给出排序
+    const indexDef = this._indexDefinitions[key]?.[sortOptions[0].field];
+    if (!indexDef || indexDef.type !== 'sorted' || indexDef.multikey) {
+      return undefined;
+    }
+    return this._indexes[`${key}:${sortOptions[0].field}`] as SortedIndex;
   }
   
   /**
-   * 检查指定路径的指定字段是否有索引
+   * 将记录加入集合的所有索引，调用前应已通过唯一约束检查
    * @param {string} key - 集合路径
-   * @param {string} field - 字段名
-   * @returns {boolean} - 是否有索引
+   * @param {any[]} items - 数据项
    */
-  private _hasIndexOnField(key: string, field: string): boolean {
-    return !!this._indexDefinitions[key] && !!this._indexDefinitions[key][field];
+  private _addToIndexes(key: string, items: any[]): void {
+    for (const field in this._indexDefinitions[key]) {
+      const indexDef = this._indexDefinitions[key][field];
+      items.forEach(item => this._addToIndex(key, indexDef, item));
+    }
   }
   
   /**
-   * 重建所有索引
+   * 从集合的所有索引中移除记录
+   * @param {string} key - 集合路径
+   * @param {any[]} items - 数据项
    */
-  private _rebuildAllIndexes(): void {
-    // 清空所有索引
-    this._indexes = {};
-    
-    // 重建每个定义的索引
-    for (const key in this._indexDefinitions) {
-      for (const field in this._indexDefinitions[key]) {
-        this._buildIndex(key, this._indexDefinitions[key][field]);
+  private _removeFromIndexes(key: string, items: any[]): void {
+    for (const field in this._indexDefinitions[key]) {
+      const indexDef = this._indexDefinitions[key][field];
+      const index = this._indexes[`${key}:${field}`];
+      if (!index) {
+        continue;
+      }
+      const arrayValued = this._arrayValuedItems[`${key}:${field}`];
+      items.forEach(item => arrayValued.delete(item));
+      
+      if (!(index instanceof Map)) {
+        items.forEach(item => this._removeFromSortedIndex(index, indexDef, item));
+        continue;
+      }
+      
+      for (const item of items) {
+        for (const entry of this._getIndexEntries(item, indexDef)) {
+          const entryItems = index.get(entry);
+          if (entryItems) {
+            entryItems.delete(item);
+            if (entryItems.size === 0) {
+              index.delete(entry);
+            }
+          }
+        }
       }
     }
   }
   
   /**
-   * 重建指定路径的所有索引
+   * 检查写入记录是否会违反集合的唯一索引约束
    * @param {string} key - 集合路径
+   * @param {any[]} items - 待写入的数据项（不应已在索引中）
    */
-  private _rebuildIndexesForKey(key: string): void {
-    if (!this._indexDefinitions[key]) {
-      return;
-    }
-    
-    // 重建该路径的所有索引
+  private _checkUniqueConstraints(key: string, items: any[]): void {
     for (const field in this._indexDefinitions[key]) {
-      this._buildIndex(key, this._indexDefinitions[key][field]);
+      const indexDef = this._indexDefinitions[key][field];
+      if (indexDef.type !== 'unique') {
+        continue;
+      }
+      
+      const index = this._indexes[`${key}:${field}`] as Map<string, Set<any>> | undefined;
+      const seen = new Set<string>();
+      for (const item of items) {
+        const entries = this._getUniqueEntries(item, indexDef);
+        if (entries.some(entry => seen.has(entry) || (index && index.has(entry)))) {
+          throw new UniqueConstraintError(key, field, this._getIndexedValue(item, indexDef));
+        }
+        entries.forEach(entry => seen.add(entry));
+      }
     }
   }
   
   /**
-   * 构建索引
+   * 原地修改集合中的一条记录并增量维护索引，违反唯一约束时恢复记录
    * @param {string} key - 集合路径
-   * @param {IndexDefinition} indexDef - 索引定义
+   * @param {any} item - 数据项
+   * @param {function} mutate - 修改记录的回调
    */
-  private _buildIndex(key: string, indexDef: IndexDefinition): void {
-    const data = this.get(key);
-    if (!Array.isArray(data)) {
-      return;
-    }
+  private _updateIndexedItem(key: string, item: any, mutate: () => void): void {
+    const previous = _.cloneDeep(item);
+    this._removeFromIndexes(key, [item]);
+    mutate();
     
-    const indexKey = `${key}:${indexDef.field}`;
-    this._indexes[indexKey] = {};
+    try {
+      this._checkUniqueConstraints(key, [item]);
+    } catch (error) {
+      this._restoreItem(item, previous);
+      this._addToIndexes(key, [item]);
+      throw error;
+    }
     
-    // 遍历数组构建索引
-    data.forEach((item, index) => {
-      if (!item || typeof item !== 'object') {
-        return;
-      }
-      
-      const fieldValue = item[indexDef.field];
-      if (fieldValue === undefined || fieldValue === null) {
-        return;
-      }
-      
-      const strValue = String(fieldValue);
-      
-      // 根据索引类型处理
-      if (indexDef.type === 'unique') {
-        // 唯一索引
-        this._indexes[indexKey][strValue] = index;
-      } else {
-        // 多值索引
-        if (!this._indexes[indexKey][strValue]) {
-          this._indexes[indexKey][strValue] = [];
-        }
-        (this._indexes[indexKey][strValue] as number[]).push(index);
-      }
-    });
+    this._addToIndexes(key, [item]);
   }
   
   /**
-   * 根据对象查找索引位置
+   * 原地恢复记录内容，保持对象引用不变
+   * @param {any} item - 数据项
+   * @param {any} snapshot - 修改前的副本
+   */
+  private _restoreItem(item: any, snapshot: any): void {
+    Object.keys(item).forEach(field => delete item[field]);
+    Object.assign(item, snapshot);
+  }
+  
+  /**
+   * 根据对象条件查找记录，优先使用索引
    * @param {string} key - 集合路径
    * @param {object} obj - 查询对象
-   * @returns {number} - 找到的索引位置，-1表示未找到
+   * @returns {any} - 找到的记录，未找到时返回 undefined
    */
-  private _findIndexedItemPosition(key: string, obj: Record<string, any>): number {
-    // 检查是否有匹配的索引
+  private _findIndexedItem(key: string, obj: Record<string, any>): any {
+    // 检查是否有匹配的索引；对象值按部分匹配，不能按索引键查找
     for (const field in obj) {
-      if (this._hasIndexOnField(key, field)) {
-        const index = this._getItemIndexByField(key, field, obj[field]);
-        if (index !== -1) {
-          return index;
-        }
+      if (!_.isObject(obj[field]) && this._hasIndexOnField(key, field)) {
+        return _.find(this._getItemsByField(key, field, obj[field]), obj);
       }
     }
     
-    return -1;
+    return _.find(this.get(key), obj);
   }
   
   /**
-   * 根据字段和值获取数组中的项索引
+   * 根据字段和值通过索引获取记录
    * @param {string} key - 集合路径
    * @param {string} field - 字段名
    * @param {any} value - 字段值
-   * @returns {number} - 找到的索引位置，-1表示未找到
+   * @returns {any[]} - 找到的记录
    */
-  private _getItemIndexByField(key: string, field: string, value: any): number {
-    const indexKey = `${key}:${field}`;
-    const strValue = String(value);
-    
-    if (!this._indexes[indexKey] || this._indexes[indexKey][strValue] === undefined) {
-      return -1;
+  private _getItemsByField(key: string, field: string, value: any): any[] {
+    const index = this._indexes[`${key}:${field}`];
+    let items: Set<any> | undefined;
+    if (index && !(index instanceof Map)) {
+      // 有序索引按类型精确匹配
+      const sortable = this._toSortableValue(value);
+      if (sortable === undefined) {
+        return [];
+      }
+      const entry = index.entries[this._findSortedPosition(index.entries, entryValue => this._compareIndexValues(entryValue, sortable))];
+      items = entry && this._compareIndexValues(entry.value, sortable) === 0 ? entry.items : undefined;
+    } else {
+      items = index ? index.get(this._encodeIndexValue(value)) : undefined;
+    }
+    if (!items) {
+      return [];
     }
     
-    const indexData = this._indexes[indexKey][strValue];
-    return typeof indexData === 'number' ? indexData : indexData[0] || -1;
+    // 索引键相同的值不一定严格相等（如有序索引中的日期和时间戳），按字段值严格相等重新检查，与不使用索引时的结果一致
+    const indexDef = this._indexDefinitions[key][field];
+    return Array.from(items).filter(item => this._getFieldIndexValues(item, field, indexDef).includes(value));
   }
-  
+
   /**
-   * 根据字段和值获取数组中的多个项索引
+   * 使用索引查找满足字段条件的记录
    * @param {string} key - 集合路径
    * @param {string} field - 字段名
-   * @param {any} value - 字段值
-   * @returns {number[]} - 找到的索引位置数组
+   * @param {FieldCondition} condition - 字段条件
+   * @returns {{items: any[], ordered: boolean} | undefined} - 找到的记录及其是否按字段值升序排列，无法使用索引时返回 undefined
    */
-  private _getItemIndexesByField(key: string, field: string, value: any): number[] {
-    const indexKey = `${key}:${field}`;
-    const strValue = String(value);
+  private _lookupIndex(key: string, field: string, condition: FieldCondition): { items: any[], ordered: boolean } | undefined {
+    // 扫描时数组字段按元素匹配，而非多键索引以整个数组为键，查找结果会不完整
+    if (this._indexHoldsArrays(key, field)) {
+      return undefined;
+    }
     
-    if (!this._indexes[indexKey] || this._indexes[indexKey][strValue] === undefined) {
-      return [];
+    const values = this._getIndexLookupValues(condition);
+    if (values !== undefined) {
+      const items = values.length === 1
+        ? this._getItemsByField(key, field, values[0])
+        : _.uniq(_.flatMap(values, value => this._getItemsByField(key, field, value)));
+      return { items, ordered: values.length === 1 && !this._indexDefinitions[key][field].multikey };
     }
     
-    const indexData = this._indexes[indexKey][strValue];
-    return typeof indexData === 'number' ? [indexData] : indexData;
+    // 有序索引支持范围条件
+    const index = this._indexes[`${key}:${field}`];
+    if (index && !(index instanceof Map) && this._isRangeCondition(condition)) {
+      if (!this._indexDefinitions[key][field].multikey) {
+        return { items: this._scanSortedIndex(index, condition), ordered: true };
+      }
+      
+      // 多键索引上数组的不同元素可以分别满足上下界，只按一侧范围扫描后再检查完整条件
+      const [operator] = Object.keys(condition) as Array<keyof FieldOperators>;
+      const items = this._scanSortedIndex(index, { [operator]: condition[operator] })
+        .filter(item => this._matchesField(_.get(item, field), condition));
+      return { items, ordered: false };
+    }
+    return undefined;
+  }
+
+  /**
+   * 查找条件覆盖字段前缀最长的复合索引，并用相等条件的值查找记录
+   * @param {string} key - 集合路径
+   * @param {WhereCondition} where - 过滤条件
+   * @returns {{items: any[]} | undefined} - 找到的候选记录，没有可用的复合索引时返回 undefined
+   */
+  private _lookupCompoundIndex(key: string, where: WhereCondition): { items: any[] } | undefined {
+    let best: { name: string, values: any[] } | undefined;
+    
+    for (const name in this._indexDefinitions[key]) {
+      const fields = this._getIndexFields(this._indexDefinitions[key][name]);
+      // 有字段值为数组的非多键索引查找结果不完整
+      if (fields.length < 2 || this._indexHoldsArrays(key, name)) {
+        continue;
+      }
+      
+      // 计算条件覆盖的最长前缀，前缀上的每个字段都必须是单值相等条件
+      const values: any[] = [];
+      for (const field of fields) {
+        const lookupValues = field in where ? this._getIndexLookupValues(where[field]) : undefined;
+        if (!lookupValues || lookupValues.length !== 1) {
+          break;
+        }
+        values.push(lookupValues[0]);
+      }
+      
+      if (values.length > 0 && (!best || values.length > best.values.length)) {
+        best = { name, values };
+      }
+    }
+    
+    if (!best) {
+      return undefined;
+    }
+    
+    const index = this._indexes[`${key}:${best.name}`] as Map<string, Set<any>> | undefined;
+    const items = index ? index.get(this._encodeIndexTuple(best.values.map(value => this._encodeIndexValue(value)))) : undefined;
+    return { items: items ? Array.from(items) : [] };
+  }
+
+  /**
+   * 判断条件是否只包含范围操作符
+   * @param {FieldCondition} condition - 字段条件
+   * @returns {boolean} - 是否为范围条件
+   */
+  private _isRangeCondition(condition: FieldCondition): condition is FieldOperators {
+    return this._isOperatorObject(condition) &&
+      Object.keys(condition).every(operator => ['$gt', '$gte', '$lt', '$lte'].includes(operator));
   }
 
   /**
@@ -623,19 +3568,34 @@ class NodedbJson {
     const totalRecords = data.length;
     let filteredData = [...data];
     let usedIndex = false;
+    let orderedBy: string | undefined;
     
     // 1. 应用过滤条件 (WHERE)
     if (options.where) {
       const filterResult = this._applyFilter(key, filteredData, options.where);
       filteredData = filterResult.data;
       usedIndex = filterResult.usedIndex;
+      orderedBy = filterResult.orderedBy;
     }
     
     const filteredRecords = filteredData.length;
     
-    // 2. 应用排序 (ORDER BY)
+    // 2. 应用排序 (ORDER BY)，排序字段有有序索引时按索引顺序输出
     if (options.sort) {
-      filteredData = this._applySort(filteredData, options.sort);
+      const sortIndex = this._getSortIndex(key, options.sort);
+      const sortOption = Array.isArray(options.sort) ? options.sort[0] : options.sort;
+      
+      if (sortIndex && !options.where) {
+        filteredData = this._traverseSortedIndex(sortIndex, sortOption.direction);
+        usedIndex = true;
+      } else if (sortIndex && orderedBy === sortOption.field) {
+        // 过滤结果已按索引升序排列
+        if (sortOption.direction === 'desc') {
+          filteredData.reverse();
+        }
+      } else {
+        filteredData = this._applySort(filteredData, options.sort);
+      }
     }
     
     // 3. 应用跳过和限制 (SKIP/LIMIT)
@@ -694,14 +3654,14 @@ class NodedbJson {
    * 应用过滤条件
    * @param {string} key - 集合路径
    * @param {T[]} data - 数据数组
-   * @param {PredicateFunction<T> | Record<string, any>} where - 过滤条件
-   * @returns {{data: T[], usedIndex: boolean}} - 过滤结果
+   * @param {PredicateFunction<T> | WhereCondition<T>} where - 过滤条件
+   * @returns {{data: T[], usedIndex: boolean, orderedBy?: string}} - 过滤结果，orderedBy 表示结果已按该字段升序排列
    */
   private _applyFilter<T>(
     key: string, 
     data: T[], 
-    where: PredicateFunction<T> | Record<string, any>
-  ): { data: T[], usedIndex: boolean } {
+    where: PredicateFunction<T> | WhereCondition<T>
+  ): { data: T[], usedIndex: boolean, orderedBy?: string } {
     let usedIndex = false;
     
     if (typeof where === 'function') {
@@ -711,57 +3671,229 @@ class NodedbJson {
     
     // 使用对象条件过滤，尝试使用索引优化
     if (typeof where === 'object' && this.options.enableIndexing) {
-      // 检查是否可以使用索引
-      const indexableFields = Object.keys(where).filter(field => 
-        this._hasIndexOnField(key, field)
-      );
+      // 优先使用条件覆盖其字段前缀的复合索引
+      const compound = this._lookupCompoundIndex(key, where);
+      if (compound && compound.items.length > 0) {
+        // 复合索引只覆盖部分条件，命中的记录只是候选，用完整条件重新检查
+        const filteredData = (compound.items as T[]).filter(item =>
+          this._matchesConditions(item, where as WhereCondition<T>)
+        );
+        
+        return { data: filteredData, usedIndex: true };
+      }
       
-      if (indexableFields.length > 0) {
-        // 使用第一个有索引的字段进行快速过滤
-        const field = indexableFields[0];
-        const value = where[field];
-        const indexes = this._getItemIndexesByField(key, field, value);
+      // 检查是否可以使用索引：相等匹配、$eq、$in，以及有序索引上的范围条件
+      for (const field of Object.keys(where)) {
+        if (!this._hasIndexOnField(key, field)) {
+          continue;
+        }
+        
+        // 使用第一个可用索引的字段进行快速过滤
+        const lookup = this._lookupIndex(key, field, where[field]);
+        if (!lookup) {
+          continue;
+        }
         
-        if (indexes.length > 0) {
+        if (lookup.items.length > 0) {
           usedIndex = true;
-          let filteredData = indexes.map(index => data[index]).filter(Boolean);
-          
-          // 应用其他条件
-          const otherConditions = _.omit(where, field);
-          if (Object.keys(otherConditions).length > 0) {
-            filteredData = filteredData.filter(item => 
-              this._matchesConditions(item, otherConditions)
-            );
-          }
+          // 索引只覆盖一个字段的条件，命中的记录只是候选，用完整条件重新检查
+          const filteredData = (lookup.items as T[]).filter(item =>
+            this._matchesConditions(item, where as WhereCondition<T>)
+          );
           
-          return { data: filteredData, usedIndex };
+          return { data: filteredData, usedIndex, orderedBy: lookup.ordered ? field : undefined };
         }
+        break;
       }
     }
     
     // 常规过滤
     const filteredData = data.filter(item => 
-      this._matchesConditions(item, where as Record<string, any>)
+      this._matchesConditions(item, where as WhereCondition<T>)
     );
     
     return { data: filteredData, usedIndex };
   }
 
+  /**
+   * 获取可以直接通过哈希索引查找的值
+   * @param {FieldCondition} condition - 字段条件
+   * @returns {any[] | undefined} - 查找值列表，条件无法使用索引时返回 undefined
+   */
+  private _getIndexLookupValues(condition: FieldCondition): any[] | undefined {
+    if (!this._isOperatorObject(condition)) {
+      return _.isObject(condition) ? undefined : [condition];
+    }
+    
+    const operators = Object.keys(condition);
+    if (operators.length !== 1) {
+      return undefined;
+    }
+    
+    if (operators[0] === '$eq' && !_.isObject(condition.$eq)) {
+      return [condition.$eq];
+    }
+    if (operators[0] === '$in' && Array.isArray(condition.$in) && !condition.$in.some(_.isObject)) {
+      return condition.$in;
+    }
+    return undefined;
+  }
+
   /**
    * 检查项是否匹配条件
    * @param {any} item - 数据项
-   * @param {Record<string, any>} conditions - 条件对象
+   * @param {WhereCondition} conditions - 条件对象
+   * @returns {boolean} - 是否匹配
+   */
+  private _matchesConditions(item: any, conditions: WhereCondition): boolean {
+    for (const [field, condition] of Object.entries(conditions)) {
+      let matches: boolean;
+      switch (field) {
+        case '$and':
+          matches = (condition as WhereCondition[]).every(sub => this._matchesConditions(item, sub));
+          break;
+        case '$or':
+          matches = (condition as WhereCondition[]).some(sub => this._matchesConditions(item, sub));
+          break;
+        case '$not':
+          matches = !this._matchesConditions(item, condition as WhereCondition);
+          break;
+        default:
+          matches = this._matchesField(_.get(item, field), condition);
+      }
+      
+      if (!matches) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 检查字段值是否匹配字段条件
+   * @param {any} value - 字段值
+   * @param {FieldCondition} condition - 字段条件
    * @returns {boolean} - 是否匹配
    */
-  private _matchesConditions(item: any, conditions: Record<string, any>): boolean {
-    for (const [field, value] of Object.entries(conditions)) {
-      if (_.get(item, field) !== value) {
+  private _matchesField(value: any, condition: FieldCondition): boolean {
+    if (condition instanceof RegExp) {
+      return this._matchesAny(value, v => typeof v === 'string' && condition.test(v));
+    }
+    
+    if (!this._isOperatorObject(condition)) {
+      return this._matchesAny(value, v => _.isEqual(v, condition));
+    }
+    
+    for (const [operator, operand] of Object.entries(condition as FieldOperators)) {
+      if (!this._matchesOperator(value, operator, operand, condition as FieldOperators)) {
         return false;
       }
     }
     return true;
   }
 
+  /**
+   * 检查字段值是否满足单个操作符
+   * @param {any} value - 字段值
+   * @param {string} operator - 操作符
+   * @param {any} operand - 操作数
+   * @param {FieldOperators} condition - 操作符所在的条件对象
+   * @returns {boolean} - 是否匹配
+   */
+  private _matchesOperator(value: any, operator: string, operand: any, condition: FieldOperators): boolean {
+    switch (operator) {
+      case '$eq':
+        return this._matchesAny(value, v => _.isEqual(v, operand));
+      case '$ne':
+        return !this._matchesAny(value, v => _.isEqual(v, operand));
+      case '$gt':
+        return this._matchesAny(value, v => (this._compareValues(v, operand) ?? 0) > 0);
+      case '$gte':
+        return this._matchesAny(value, v => (this._compareValues(v, operand) ?? -1) >= 0);
+      case '$lt':
+        return this._matchesAny(value, v => (this._compareValues(v, operand) ?? 0) < 0);
+      case '$lte':
+        return this._matchesAny(value, v => (this._compareValues(v, operand) ?? 1) <= 0);
+      case '$in':
+        this._assertArrayOperand(operator, operand);
+        return this._matchesAny(value, v => operand.some((candidate: any) => _.isEqual(v, candidate)));
+      case '$nin':
+        this._assertArrayOperand(operator, operand);
+        return !this._matchesAny(value, v => operand.some((candidate: any) => _.isEqual(v, candidate)));
+      case '$exists':
+        return (value !== undefined) === Boolean(operand);
+      case '$regex': {
+        const regex = operand instanceof RegExp ? operand : new RegExp(operand, condition.$options);
+        return this._matchesAny(value, v => typeof v === 'string' && regex.test(v));
+      }
+      case '$options':
+        // 由 $regex 处理
+        return true;
+      case '$not':
+        return !this._matchesField(value, operand);
+      case '$elemMatch':
+        return Array.isArray(value) && value.some(element =>
+          this._isOperatorObject(operand)
+            ? this._matchesField(element, operand)
+            : this._matchesConditions(element, operand)
+        );
+      default:
+        throw new Error(`Unsupported query operator: ${operator}`);
+    }
+  }
+
+  /**
+   * 对字段值本身或（字段值为数组时）任一元素应用判断
+   * @param {any} value - 字段值
+   * @param {function} predicate - 判断函数
+   * @returns {boolean} - 是否匹配
+   */
+  private _matchesAny(value: any, predicate: (value: any) => boolean): boolean {
+    return predicate(value) || (Array.isArray(value) && value.some(predicate));
+  }
+
+  /**
+   * 判断条件是否为操作符对象（所有键都以 $ 开头）
+   * @param {any} condition - 字段条件
+   * @returns {boolean} - 是否为操作符对象
+   */
+  private _isOperatorObject(condition: any): condition is FieldOperators {
+    if (!_.isPlainObject(condition)) {
+      return false;
+    }
+    
+    const keys = Object.keys(condition);
+    return keys.length > 0 && keys.every(key => key.startsWith('$'));
+  }
+
+  /**
+   * 比较两个同类型的值
+   * @param {any} a - 值 a
+   * @param {any} b - 值 b
+   * @returns {number | undefined} - a < b 返回负数，相等返回 0，a > b 返回正数；类型不同无法比较时返回 undefined
+   */
+  private _compareValues(a: any, b: any): number | undefined {
+    const left = a instanceof Date ? a.getTime() : a;
+    const right = b instanceof Date ? b.getTime() : b;
+    
+    if (typeof left !== typeof right || !['number', 'string', 'boolean'].includes(typeof left)) {
+      return undefined;
+    }
+    
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+
+  /**
+   * 确认操作数为数组
+   * @param {string} operator - 操作符
+   * @param {any} operand - 操作数
+   */
+  private _assertArrayOperand(operator: string, operand: any): void {
+    if (!Array.isArray(operand)) {
+      throw new Error(`Query operator ${operator} requires an array`);
+    }
+  }
+
   /**
    * 应用排序
    * @param {T[]} data - 数据数组
@@ -901,6 +4033,13 @@ class NodedbJson {
       throw new Error(`Key "${key}" does not reference an array.`);
     }
     
+    // 排序字段有有序索引时直接按索引顺序取前 limit 条
+    const sortIndex = this._getSortIndex(key, sort);
+    if (sortIndex) {
+      const sortOption = Array.isArray(sort) ? sort[0] : sort;
+      return this._traverseSortedIndex(sortIndex, sortOption.direction, limit);
+    }
+    
     const sortOptions = Array.isArray(sort) ? sort : [sort];
     let sortedData = _.orderBy(
       data,
@@ -920,14 +4059,14 @@ class NodedbJson {
    * @param {string} key - 集合路径
    * @param {number} page - 页码（从1开始）
    * @param {number} pageSize - 每页数量
-   * @param {PredicateFunction<T> | Record<string, any>} [where] - 过滤条件
+   * @param {PredicateFunction<T> | WhereCondition<T>} [where] - 过滤条件
    * @returns {PaginationResult<T>} - 分页结果
    */
   paginate<T = any>(
     key: string, 
     page: number, 
     pageSize: number, 
-    where?: PredicateFunction<T> | Record<string, any>
+    where?: PredicateFunction<T> | WhereCondition<T>
   ): PaginationResult<T> {
     const result = this.query<T>(key, {
       where,
@@ -944,13 +4083,13 @@ class NodedbJson {
    * 聚合查询
    * @param {string} key - 集合路径
    * @param {AggregationOption[]} aggregations - 聚合选项
-   * @param {PredicateFunction<T> | Record<string, any>} [where] - 过滤条件
+   * @param {PredicateFunction<T> | WhereCondition<T>} [where] - 过滤条件
    * @returns {AggregationResult[]} - 聚合结果
    */
   aggregate<T = any>(
     key: string, 
     aggregations: AggregationOption[], 
-    where?: PredicateFunction<T> | Record<string, any>
+    where?: PredicateFunction<T> | WhereCondition<T>
   ): AggregationResult[] {
     const result = this.query<T>(key, {
       where,
@@ -963,10 +4102,10 @@ class NodedbJson {
   /**
    * 统计查询
    * @param {string} key - 集合路径
-   * @param {PredicateFunction<T> | Record<string, any>} [where] - 过滤条件
+   * @param {PredicateFunction<T> | WhereCondition<T>} [where] - 过滤条件
    * @returns {number} - 统计数量
    */
-  count<T = any>(key: string, where?: PredicateFunction<T> | Record<string, any>): number {
+  count<T = any>(key: string, where?: PredicateFunction<T> | WhereCondition<T>): number {
     const result = this.aggregate<T>(key, [{ type: 'count' }], where);
     return result[0]?.value as number || 0;
   }
@@ -989,7 +4128,19 @@ class NodedbJson {
 
 // 导出类
 export default NodedbJson;
+export { UniqueConstraintError, DatabaseLockedError, ValidationError, SchemaVersionError, MigrationError, Collection, NodedbJsonAsync, FileStorageAdapter, GzipFileStorageAdapter, DirectoryStorageAdapter, MemoryStorageAdapter };
 
 // 为了兼容 CommonJS 导出
 module.exports = NodedbJson;
-module.exports.default = NodedbJson; 
\ No newline at end of file
+module.exports.default = NodedbJson;
+module.exports.UniqueConstraintError = UniqueConstraintError;
+module.exports.DatabaseLockedError = DatabaseLockedError;
+module.exports.ValidationError = ValidationError;
+module.exports.SchemaVersionError = SchemaVersionError;
+module.exports.MigrationError = MigrationError;
+module.exports.Collection = Collection;
+module.exports.NodedbJsonAsync = NodedbJsonAsync;
+module.exports.FileStorageAdapter = FileStorageAdapter;
+module.exports.GzipFileStorageAdapter = GzipFileStorageAdapter;
+module.exports.DirectoryStorageAdapter = DirectoryStorageAdapter;
+module.exports.MemoryStorageAdapter = MemoryStorageAdapter; 
\ No newline at end of file
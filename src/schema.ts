@@ -0,0 +1,352 @@
+import * as _ from 'lodash';
+import {
+  JsonSchema,
+  SchemaDefinition,
+  SchemaType,
+  ValidationIssue,
+  ValidationOptions
+} from './types';
+
+const SCHEMA_TYPES: SchemaType[] = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+const SCHEMA_KEYWORDS = [
+  '$schema', 'title', 'description', 'type', 'enum', 'const',
+  'properties', 'required', 'additionalProperties', 'items', 'minItems', 'maxItems',
+  'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'minLength', 'maxLength', 'pattern', 'default'
+];
+
+/**
+ * 把结构定义（JSON Schema 或简写）转换为 JSON Schema
+ * @param {SchemaDefinition} definition - 结构定义
+ * @returns {JsonSchema} - JSON Schema
+ */
+export function toJsonSchema(definition: SchemaDefinition): JsonSchema {
+  return parseDefinition(definition).schema;
+}
+
+/**
+ * 解析结构定义，同时返回简写中的可选标记
+ * @param {SchemaDefinition} definition - 结构定义
+ * @returns {{schema: JsonSchema, optional: boolean}} - JSON Schema 及是否可选
+ */
+function parseDefinition(definition: SchemaDefinition): { schema: JsonSchema; optional: boolean } {
+  if (typeof definition === 'string') {
+    const match = /^(\w+)(\[\])?(\?)?$/.exec(definition.trim());
+    if (!match || (match[1] !== 'any' && !SCHEMA_TYPES.includes(match[1] as SchemaType))) {
+      throw new Error(`Unknown schema type "${definition}".`);
+    }
+
+    const schema: JsonSchema = match[1] === 'any' ? {} : { type: match[1] as SchemaType };
+    return { schema: match[2] ? { type: 'array', items: schema } : schema, optional: !!match[3] };
+  }
+
+  if (Array.isArray(definition)) {
+    if (definition.length !== 1) {
+      throw new Error('Array schema shorthand must contain exactly one element definition.');
+    }
+    return { schema: { type: 'array', items: toJsonSchema(definition[0]) }, optional: false };
+  }
+
+  if (!_.isPlainObject(definition)) {
+    throw new Error(`Invalid schema definition: ${JSON.stringify(definition)}`);
+  }
+
+  if (isJsonSchema(definition)) {
+    return { schema: definition as JsonSchema, optional: false };
+  }
+
+  // 简写的对象结构：字段名以 ? 结尾表示可选，其余字段必填
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  _.forEach(definition as Record<string, SchemaDefinition>, (fieldDefinition, name) => {
+    const parsed = parseDefinition(fieldDefinition);
+    const field = name.endsWith('?') ? name.slice(0, -1) : name;
+    properties[field] = parsed.schema;
+    if (!parsed.optional && !name.endsWith('?')) {
+      required.push(field);
+    }
+  });
+  return { schema: { type: 'object', properties, required }, optional: false };
+}
+
+/**
+ * 判断对象是否为 JSON Schema：带有 $schema，或 type 为已知类型（或其列表）且其余键都是支持的关键字
+ * 简写中名为 type 的字段与其他字段并存，不会被误判为 JSON Schema
+ * @param {object} definition - 结构定义
+ * @returns {boolean} - 是否为 JSON Schema
+ */
+function isJsonSchema(definition: Record<string, any>): boolean {
+  if (typeof definition.$schema === 'string') {
+    return true;
+  }
+  const types = _.castArray(definition.type);
+  return definition.type !== undefined
+    && types.length > 0
+    && types.every(type => SCHEMA_TYPES.includes(type))
+    && Object.keys(definition).every(key => SCHEMA_KEYWORDS.includes(key));
+}
+
+/**
+ * 沿相对路径找到子值对应的结构定义
+ * @param {JsonSchema} schema - 根结构定义
+ * @param {string[]} segments - 相对路径
+ * @returns {JsonSchema|false|undefined} - 子结构定义；路径不被允许时为 false，没有约束时为 undefined
+ */
+export function getSubSchema(schema: JsonSchema, segments: string[]): JsonSchema | false | undefined {
+  let current = schema;
+  for (const segment of segments) {
+    if (current.items && /^\d+$/.test(segment)) {
+      current = current.items;
+    } else if (current.properties && _.has(current.properties, segment)) {
+      current = current.properties[segment];
+    } else if (current.additionalProperties === false) {
+      return false;
+    } else if (_.isPlainObject(current.additionalProperties)) {
+      current = current.additionalProperties as JsonSchema;
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+/**
+ * 按结构定义校验值，失败原因追加到 issues
+ * 启用 useDefaults 或 coerceTypes 时会直接修改传入的对象和数组，调用方需要传入副本
+ * @param {JsonSchema} schema - 结构定义
+ * @param {any} value - 要校验的值
+ * @param {string} path - 值的完整路径，用于错误信息
+ * @param {ValidationOptions} options - 校验选项
+ * @param {ValidationIssue[]} issues - 校验失败的位置
+ * @returns {any} - 校验后的值（可能经过类型转换）
+ */
+export function validateValue(
+  schema: JsonSchema,
+  value: any,
+  path: string,
+  options: ValidationOptions,
+  issues: ValidationIssue[]
+): any {
+  let result = value;
+
+  if (schema.type !== undefined) {
+    const types = _.castArray(schema.type);
+    if (!types.some(type => matchesType(result, type))) {
+      const coerced = options.coerceTypes ? coerceValue(result, types) : undefined;
+      if (coerced === undefined) {
+        issues.push({ path, keyword: 'type', message: `must be ${types.join(' or ')}`, value });
+        return value;
+      }
+      result = coerced;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(candidate => _.isEqual(candidate, result))) {
+    issues.push({ path, keyword: 'enum', message: `must be one of ${JSON.stringify(schema.enum)}`, value: result });
+  }
+  if (schema.const !== undefined && !_.isEqual(schema.const, result)) {
+    issues.push({ path, keyword: 'const', message: `must be ${JSON.stringify(schema.const)}`, value: result });
+  }
+
+  if (typeof result === 'number') {
+    validateNumber(schema, result, path, issues);
+  } else if (typeof result === 'string') {
+    validateString(schema, result, path, issues);
+  } else if (Array.isArray(result)) {
+    validateArray(schema, result, path, options, issues);
+  } else if (_.isPlainObject(result)) {
+    validateObject(schema, result, path, options, issues);
+  }
+
+  return result;
+}
+
+/**
+ * 判断值是否符合类型
+ * @param {any} value - 值
+ * @param {SchemaType} type - 类型
+ * @returns {boolean} - 是否符合
+ */
+function matchesType(value: any, type: SchemaType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return _.isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return false;
+  }
+}
+
+/**
+ * 尝试把值转换为目标类型之一
+ * @param {any} value - 值
+ * @param {SchemaType[]} types - 目标类型
+ * @returns {any} - 转换后的值，无法转换时为 undefined
+ */
+function coerceValue(value: any, types: SchemaType[]): any {
+  for (const type of types) {
+    switch (type) {
+      case 'number':
+      case 'integer': {
+        if (typeof value === 'string' && value.trim() !== '') {
+          const number = Number(value);
+          if (matchesType(number, type)) {
+            return number;
+          }
+        }
+        break;
+      }
+      case 'string':
+        if (Number.isFinite(value) || typeof value === 'boolean') {
+          return String(value);
+        }
+        break;
+      case 'boolean':
+        if (value === 'true' || value === 'false') {
+          return value === 'true';
+        }
+        break;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 校验数值范围
+ * @param {JsonSchema} schema - 结构定义
+ * @param {number} value - 数值
+ * @param {string} path - 值的完整路径
+ * @param {ValidationIssue[]} issues - 校验失败的位置
+ */
+function validateNumber(schema: JsonSchema, value: number, path: string, issues: ValidationIssue[]): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    issues.push({ path, keyword: 'minimum', message: `must be >= ${schema.minimum}`, value });
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    issues.push({ path, keyword: 'maximum', message: `must be <= ${schema.maximum}`, value });
+  }
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    issues.push({ path, keyword: 'exclusiveMinimum', message: `must be > ${schema.exclusiveMinimum}`, value });
+  }
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    issues.push({ path, keyword: 'exclusiveMaximum', message: `must be < ${schema.exclusiveMaximum}`, value });
+  }
+}
+
+/**
+ * 校验字符串长度和格式
+ * @param {JsonSchema} schema - 结构定义
+ * @param {string} value - 字符串
+ * @param {string} path - 值的完整路径
+ * @param {ValidationIssue[]} issues - 校验失败的位置
+ */
+function validateString(schema: JsonSchema, value: string, path: string, issues: ValidationIssue[]): void {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    issues.push({ path, keyword: 'minLength', message: `must have at least ${schema.minLength} characters`, value });
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    issues.push({ path, keyword: 'maxLength', message: `must have at most ${schema.maxLength} characters`, value });
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+    issues.push({ path, keyword: 'pattern', message: `must match pattern /${schema.pattern}/`, value });
+  }
+}
+
+/**
+ * 校验数组长度和每个元素
+ * @param {JsonSchema} schema - 结构定义
+ * @param {any[]} value - 数组
+ * @param {string} path - 值的完整路径
+ * @param {ValidationOptions} options - 校验选项
+ * @param {ValidationIssue[]} issues - 校验失败的位置
+ */
+function validateArray(
+  schema: JsonSchema,
+  value: any[],
+  path: string,
+  options: ValidationOptions,
+  issues: ValidationIssue[]
+): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    issues.push({ path, keyword: 'minItems', message: `must have at least ${schema.minItems} items`, value });
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    issues.push({ path, keyword: 'maxItems', message: `must have at most ${schema.maxItems} items`, value });
+  }
+
+  if (schema.items) {
+    const itemSchema = schema.items;
+    value.forEach((item, i) => {
+      const next = validateValue(itemSchema, item, `${path}.${i}`, options, issues);
+      if (next !== item) {
+        value[i] = next;
+      }
+    });
+  }
+}
+
+/**
+ * 校验对象字段，缺失的字段可以用默认值填充
+ * @param {JsonSchema} schema - 结构定义
+ * @param {object} value - 对象
+ * @param {string} path - 值的完整路径
+ * @param {ValidationOptions} options - 校验选项
+ * @param {ValidationIssue[]} issues - 校验失败的位置
+ */
+function validateObject(
+  schema: JsonSchema,
+  value: Record<string, any>,
+  path: string,
+  options: ValidationOptions,
+  issues: ValidationIssue[]
+): void {
+  const properties = schema.properties || {};
+
+  if (options.useDefaults) {
+    _.forEach(properties, (property, field) => {
+      if (value[field] === undefined && property.default !== undefined) {
+        value[field] = _.cloneDeep(property.default);
+      }
+    });
+  }
+
+  (schema.required || []).forEach(field => {
+    if (value[field] === undefined) {
+      issues.push({ path: `${path}.${field}`, keyword: 'required', message: 'is required', value: undefined });
+    }
+  });
+
+  Object.keys(value).forEach(field => {
+    const fieldValue = value[field];
+    if (fieldValue === undefined) {
+      return;
+    }
+
+    let fieldSchema: JsonSchema | undefined;
+    if (_.has(properties, field)) {
+      fieldSchema = properties[field];
+    } else if (schema.additionalProperties === false) {
+      issues.push({ path: `${path}.${field}`, keyword: 'additionalProperties', message: 'is not allowed', value: fieldValue });
+    } else if (_.isPlainObject(schema.additionalProperties)) {
+      fieldSchema = schema.additionalProperties as JsonSchema;
+    }
+
+    if (fieldSchema) {
+      const next = validateValue(fieldSchema, fieldValue, `${path}.${field}`, options, issues);
+      if (next !== fieldValue) {
+        value[field] = next;
+      }
+    }
+  });
+}
@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * 带时间戳的快照文件名，同一毫秒内的后续快照带有序号
+ */
+const SNAPSHOT_NAME = /^snapshot-(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)(?:-(\d+))?\.json$/;
+
+/**
+ * 生成带时间戳的快照文件路径并独占创建该文件，目录不存在时创建
+ * 同一毫秒内已有快照时依次加上序号，不会覆盖已有的快照
+ * @param {string} directory - 快照目录
+ * @param {Date} date - 快照时间
+ * @returns {string} - 快照文件路径
+ */
+export function createSnapshotPath(directory: string, date: Date): string {
+  fs.mkdirSync(directory, { recursive: true });
+  // 文件名不能包含冒号；ISO 8601 时间按字符串排序即按时间排序
+  const timestamp = date.toISOString().replace(/[:.]/g, '-');
+  const base = `snapshot-${timestamp}`;
+  // 序号接在同一毫秒内已有快照的最大序号之后，即使较早的快照已被清理，新快照也排在最后
+  const sameTime = fs.readdirSync(directory)
+    .map(name => SNAPSHOT_NAME.exec(name))
+    .filter((match): match is RegExpExecArray => match !== null && match[1] === timestamp);
+  let counter = sameTime.length === 0 ? 0 : Math.max(...sameTime.map(match => Number(match[2] || 0))) + 1;
+  while (true) {
+    const snapshotPath = path.join(directory, counter === 0 ? `${base}.json` : `${base}-${counter}.json`);
+    try {
+      fs.closeSync(fs.openSync(snapshotPath, 'wx'));
+      return snapshotPath;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+    counter++;
+  }
+}
+
+/**
+ * 列出目录中带时间戳的快照文件，从旧到新排列
+ * @param {string} directory - 快照目录
+ * @returns {string[]} - 快照文件路径
+ */
+export function listSnapshots(directory: string): string[] {
+  let names: string[];
+  try {
+    names = fs.readdirSync(directory);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+  // 按时间排序，同一毫秒内按序号排序
+  return names
+    .map(name => SNAPSHOT_NAME.exec(name))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .sort((a, b) => a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : Number(a[2] || 0) - Number(b[2] || 0))
+    .map(match => path.join(directory, match[0]));
+}
@@ -0,0 +1,617 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { DatabaseLockedError } from './errors';
+import { LockOptions, StorageAdapter, StorageEntry } from './types';
+
+/**
+ * 各项内容相对数据文件的后缀
+ */
+const ENTRY_SUFFIXES: Record<StorageEntry, string> = {
+  data: '',
+  backup: '.bak',
+  journal: '.wal',
+  indexes: '.indexes.json'
+};
+
+/**
+ * 文件存储：数据写入 filePath，备份、预写日志和索引定义写入同目录下带后缀的文件
+ * 写入先写临时文件并 fsync 再重命名，锁通过 <filePath>.lock 实现
+ */
+export class FileStorageAdapter implements StorageAdapter {
+  readonly location: string;
+  private tempFileCounter: number = 0;
+  private lockAcquiredAt: number | null = null;
+  private lockRefreshTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * 创建文件存储
+   * @param {string} filePath - 数据文件路径
+   */
+  constructor(filePath: string) {
+    this.location = filePath;
+  }
+
+  /**
+   * 获取内容对应的文件路径
+   * @param {StorageEntry} entry - 内容
+   * @returns {string} - 文件路径
+   */
+  locate(entry: StorageEntry): string {
+    return `${this.location}${ENTRY_SUFFIXES[entry]}`;
+  }
+
+  /**
+   * 读取内容，文件不存在时返回 undefined
+   * @param {StorageEntry} entry - 内容
+   * @returns {string | undefined} - 内容
+   */
+  read(entry: StorageEntry): string | undefined {
+    let buffer: Buffer;
+    try {
+      buffer = fs.readFileSync(this.locate(entry));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+    return this.decode(entry, buffer);
+  }
+
+  /**
+   * 异步读取内容，文件不存在时返回 undefined
+   * @param {StorageEntry} entry - 内容
+   * @returns {Promise<string | undefined>} - 内容
+   */
+  async readAsync(entry: StorageEntry): Promise<string | undefined> {
+    let buffer: Buffer;
+    try {
+      buffer = await fs.promises.readFile(this.locate(entry));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+    return this.decode(entry, buffer);
+  }
+
+  /**
+   * 原子写入文件：先写入同目录下的临时文件并 fsync，再重命名覆盖目标文件
+   * @param {StorageEntry} entry - 内容
+   * @param {string} content - 文件内容
+   */
+  write(entry: StorageEntry, content: string): void {
+    const targetPath = this.locate(entry);
+    const tempPath = this.getTempPath(targetPath);
+
+    try {
+      const fd = fs.openSync(tempPath, 'w');
+      try {
+        fs.writeFileSync(fd, this.encode(entry, content));
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+      fs.renameSync(tempPath, targetPath);
+    } catch (error) {
+      if (fs.existsSync(tempPath)) {
+        fs.unlinkSync(tempPath);
+      }
+      throw error;
+    }
+
+    // 同步目录项，确保重命名本身落盘；部分平台不支持对目录 fsync
+    try {
+      const dirFd = fs.openSync(path.dirname(targetPath), 'r');
+      try {
+        fs.fsyncSync(dirFd);
+      } finally {
+        fs.closeSync(dirFd);
+      }
+    } catch {
+      // 忽略
+    }
+  }
+
+  /**
+   * 异步原子写入文件，步骤与 write 相同但不阻塞事件循环
+   * @param {StorageEntry} entry - 内容
+   * @param {string} content - 文件内容
+   */
+  async writeAsync(entry: StorageEntry, content: string): Promise<void> {
+    const targetPath = this.locate(entry);
+    const tempPath = this.getTempPath(targetPath);
+
+    try {
+      const handle = await fs.promises.open(tempPath, 'w');
+      try {
+        await handle.writeFile(this.encode(entry, content));
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      await fs.promises.rename(tempPath, targetPath);
+    } catch (error) {
+      await fs.promises.unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+
+    try {
+      const dirHandle = await fs.promises.open(path.dirname(targetPath), 'r');
+      try {
+        await dirHandle.sync();
+      } finally {
+        await dirHandle.close();
+      }
+    } catch {
+      // 忽略
+    }
+  }
+
+  /**
+   * 追加内容并 fsync，文件不存在时创建
+   * @param {StorageEntry} entry - 内容
+   * @param {string} content - 追加的内容
+   */
+  append(entry: StorageEntry, content: string): void {
+    const fd = fs.openSync(this.locate(entry), 'a');
+    try {
+      fs.writeSync(fd, content);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  /**
+   * 异步追加内容并 fsync
+   * @param {StorageEntry} entry - 内容
+   * @param {string} content - 追加的内容
+   */
+  async appendAsync(entry: StorageEntry, content: string): Promise<void> {
+    const handle = await fs.promises.open(this.locate(entry), 'a');
+    try {
+      await handle.writeFile(content, "utf-8");
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * 删除文件，不存在时忽略
+   * @param {StorageEntry} entry - 内容
+   */
+  remove(entry: StorageEntry): void {
+    try {
+      fs.unlinkSync(this.locate(entry));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * 独占创建锁文件；锁被占用时按配置等待，超时抛出 DatabaseLockedError
+   * 持有进程已退出或锁文件长时间未刷新的锁视为过期，移走后重新创建
+   * @param {Required<LockOptions>} options - 锁配置
+   */
+  lock(options: Required<LockOptions>): void {
+    const lockPath = this.getLockPath();
+    const { timeout, retryInterval, staleMs } = options;
+    const deadline = Date.now() + timeout;
+
+    while (true) {
+      try {
+        const fd = fs.openSync(lockPath, 'wx');
+        try {
+          this.lockAcquiredAt = Date.now();
+          fs.writeSync(fd, JSON.stringify({ pid: process.pid, hostname: os.hostname(), acquiredAt: this.lockAcquiredAt }));
+        } finally {
+          fs.closeSync(fd);
+        }
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const holder = this.readLockHolder(lockPath, staleMs);
+      // 锁文件刚被删除时立即重试
+      if (!holder) {
+        continue;
+      }
+      if (holder.stale) {
+        this.removeStaleLock(lockPath, holder);
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new DatabaseLockedError(this.location, lockPath, holder.pid);
+      }
+      // 构造函数是同步的，只能阻塞等待
+      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, Math.min(retryInterval, Math.max(deadline - Date.now(), 1)));
+    }
+
+    // 定期刷新锁文件的修改时间，避免长时间持有的锁被判定为过期
+    this.lockRefreshTimer = setInterval(() => {
+      try {
+        const now = new Date();
+        fs.utimesSync(lockPath, now, now);
+      } catch {
+        // 忽略
+      }
+    }, Math.max(Math.floor(staleMs / 2), 1));
+    this.lockRefreshTimer.unref();
+  }
+
+  /**
+   * 释放文件锁；锁文件已被其他实例接管时不删除
+   */
+  unlock(): void {
+    if (this.lockAcquiredAt === null) {
+      return;
+    }
+
+    if (this.lockRefreshTimer) {
+      clearInterval(this.lockRefreshTimer);
+      this.lockRefreshTimer = null;
+    }
+
+    const lockPath = this.getLockPath();
+    try {
+      const holder = JSON.parse(fs.readFileSync(lockPath, "utf-8"));
+      if (holder.pid === process.pid && holder.acquiredAt === this.lockAcquiredAt) {
+        fs.unlinkSync(lockPath);
+      }
+    } catch {
+      // 锁文件已不存在
+    }
+    this.lockAcquiredAt = null;
+  }
+
+  /**
+   * 轮询数据文件的状态；原子写入会替换文件，轮询比 fs.watch 更可靠
+   * @param {function} listener - 文件变化时调用
+   * @param {number} interval - 轮询间隔毫秒数
+   * @returns {function} - 停止监视的函数
+   */
+  watch(listener: () => void, interval: number): () => void {
+    const filePath = this.locate('data');
+    const handler = (curr: fs.Stats) => {
+      // 文件被删除时等待重新出现
+      if (curr.mtimeMs !== 0) {
+        listener();
+      }
+    };
+    fs.watchFile(filePath, { interval, persistent: false }, handler);
+    return () => fs.unwatchFile(filePath, handler);
+  }
+
+  /**
+   * 把内容编码为写入文件的数据，子类可以在此压缩
+   * @param {StorageEntry} entry - 内容
+   * @param {string} content - 内容
+   * @returns {Buffer|string} - 文件数据
+   */
+  protected encode(entry: StorageEntry, content: string): Buffer | string {
+    return content;
+  }
+
+  /**
+   * 把文件数据解码为内容
+   * @param {StorageEntry} entry - 内容
+   * @param {Buffer} buffer - 文件数据
+   * @returns {string} - 内容
+   */
+  protected decode(entry: StorageEntry, buffer: Buffer): string {
+    return buffer.toString("utf-8");
+  }
+
+  /**
+   * 生成同目录下的临时文件路径，计数器避免同一毫秒内的写入使用相同的文件名
+   * @param {string} targetPath - 目标文件路径
+   * @returns {string} - 临时文件路径
+   */
+  private getTempPath(targetPath: string): string {
+    return `${targetPath}.${process.pid}.${Date.now()}.${this.tempFileCounter++}.tmp`;
+  }
+
+  /**
+   * 获取锁文件路径
+   * @returns {string} - 锁文件路径
+   */
+  private getLockPath(): string {
+    return `${this.location}.lock`;
+  }
+
+  /**
+   * 移走判定为过期的锁文件
+   * 多个进程可能同时判定同一个锁过期：直接删除可能删掉其他进程刚创建的新锁。
+   * 因此先把锁文件重命名为唯一的文件名（只有一个进程能成功），确认移走的仍是判定过期的那个锁后再删除，否则放回原处
+   * @param {string} lockPath - 锁文件路径
+   * @param {object} stale - 判定过期时读到的持有者
+   */
+  private removeStaleLock(lockPath: string, stale: { pid: number | undefined; acquiredAt: number | undefined }): void {
+    const claimedPath = `${lockPath}.${process.pid}.${Date.now()}.${this.tempFileCounter++}.stale`;
+    try {
+      fs.renameSync(lockPath, claimedPath);
+    } catch {
+      // 其他进程已经移走
+      return;
+    }
+
+    let holder: { pid?: number; acquiredAt?: number } = {};
+    try {
+      holder = JSON.parse(fs.readFileSync(claimedPath, "utf-8"));
+    } catch {
+      // 内容不完整时按持有者未知处理
+    }
+    if (holder.pid !== stale.pid || holder.acquiredAt !== stale.acquiredAt) {
+      // 移走的是其他进程接管后创建的新锁；期间已有新锁时保留新锁
+      try {
+        fs.linkSync(claimedPath, lockPath);
+      } catch {
+        // 忽略
+      }
+    }
+    fs.unlinkSync(claimedPath);
+  }
+
+  /**
+   * 读取锁文件的持有者并判断锁是否过期
+   * @param {string} lockPath - 锁文件路径
+   * @param {number} staleMs - 锁文件未刷新多久后视为过期
+   * @returns {{pid: number | undefined, acquiredAt: number | undefined, stale: boolean} | undefined} - 持有者进程 ID、获取时间及是否过期，锁文件不存在时为 undefined
+   */
+  private readLockHolder(lockPath: string, staleMs: number): { pid: number | undefined; acquiredAt: number | undefined; stale: boolean } | undefined {
+    // 通过同一个文件描述符读取修改时间和内容，两者一定属于同一个锁文件
+    let stat: fs.Stats;
+    let content: string;
+    try {
+      const fd = fs.openSync(lockPath, 'r');
+      try {
+        stat = fs.fstatSync(fd);
+        content = fs.readFileSync(fd, "utf-8");
+      } finally {
+        fs.closeSync(fd);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    let holder: { pid?: number; hostname?: string; acquiredAt?: number } = {};
+    try {
+      holder = JSON.parse(content);
+    } catch {
+      // 内容不完整时只按修改时间判断
+    }
+
+    if (Date.now() - stat.mtimeMs > staleMs) {
+      return { pid: holder.pid, acquiredAt: holder.acquiredAt, stale: true };
+    }
+
+    // 同一主机上的持有进程已不存在
+    if (holder.pid !== undefined && holder.hostname === os.hostname() && !isProcessAlive(holder.pid)) {
+      return { pid: holder.pid, acquiredAt: holder.acquiredAt, stale: true };
+    }
+    return { pid: holder.pid, acquiredAt: holder.acquiredAt, stale: false };
+  }
+}
+
+/**
+ * gzip 压缩的文件存储：数据文件和备份压缩保存，预写日志和索引定义仍为文本
+ */
+export class GzipFileStorageAdapter extends FileStorageAdapter {
+  /**
+   * 压缩数据文件和备份
+   * @param {StorageEntry} entry - 内容
+   * @param {string} content - 内容
+   * @returns {Buffer|string} - 文件数据
+   */
+  protected encode(entry: StorageEntry, content: string): Buffer | string {
+    return entry === 'data' || entry === 'backup' ? zlib.gzipSync(content) : content;
+  }
+
+  /**
+   * 解压数据文件和备份
+   * @param {StorageEntry} entry - 内容
+   * @param {Buffer} buffer - 文件数据
+   * @returns {string} - 内容
+   */
+  protected decode(entry: StorageEntry, buffer: Buffer): string {
+    return entry === 'data' || entry === 'backup' ? zlib.gunzipSync(buffer).toString("utf-8") : buffer.toString("utf-8");
+  }
+}
+
+/**
+ * 目录存储：多文件模式下每个顶层键保存为目录中的 <key>.json，备份为 <key>.json.bak
+ * 索引定义等数据库级别的内容保存为目录中以 . 开头的文件，锁文件为 <dirPath>.lock
+ */
+export class DirectoryStorageAdapter extends FileStorageAdapter {
+  private children = new Map<string, FileStorageAdapter>();
+
+  /**
+   * 获取内容对应的文件路径
+   * @param {StorageEntry} entry - 内容
+   * @returns {string} - 文件路径
+   */
+  locate(entry: StorageEntry): string {
+    return path.join(this.location, `.db${ENTRY_SUFFIXES[entry] || '.json'}`);
+  }
+
+  /**
+   * 写入数据库级别的内容，目录不存在时创建
+   * @param {StorageEntry} entry - 内容
+   * @param {string} content - 文件内容
+   */
+  write(entry: StorageEntry, content: string): void {
+    fs.mkdirSync(this.location, { recursive: true });
+    super.write(entry, content);
+  }
+
+  /**
+   * 异步写入数据库级别的内容，目录不存在时创建
+   * @param {StorageEntry} entry - 内容
+   * @param {string} content - 文件内容
+   */
+  async writeAsync(entry: StorageEntry, content: string): Promise<void> {
+    await fs.promises.mkdir(this.location, { recursive: true });
+    await super.writeAsync(entry, content);
+  }
+
+  /**
+   * 列出目录中保存的顶层键，目录不存在时返回 undefined
+   * @returns {string[] | undefined} - 顶层键
+   */
+  listKeys(): string[] | undefined {
+    let names: string[];
+    try {
+      names = fs.readdirSync(this.location);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+    return names
+      .filter(name => name.endsWith('.json') && !name.startsWith('.'))
+      .map(name => decodeURIComponent(name.slice(0, -'.json'.length)));
+  }
+
+  /**
+   * 获取保存某个顶层键的文件存储，键名经过编码后作为文件名
+   * @param {string} key - 顶层键
+   * @returns {FileStorageAdapter} - 文件存储
+   */
+  forKey(key: string): FileStorageAdapter {
+    let child = this.children.get(key);
+    if (!child) {
+      fs.mkdirSync(this.location, { recursive: true });
+      child = new FileStorageAdapter(path.join(this.location, `${encodeURIComponent(key)}.json`));
+      this.children.set(key, child);
+    }
+    return child;
+  }
+}
+
+/**
+ * 内存存储，不访问磁盘，适合测试；多个实例共享同一个存储时可以相互加锁和监视
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly location: string;
+  private entries = new Map<StorageEntry, string>();
+  private listeners = new Set<() => void>();
+  private locked: boolean = false;
+
+  /**
+   * 创建内存存储
+   * @param {object} [data] - 初始数据，未提供时与空文件相同
+   * @param {string} [location='memory'] - 存储名称，用于错误信息
+   */
+  constructor(data?: Record<string, any>, location: string = 'memory') {
+    this.location = location;
+    if (data !== undefined) {
+      this.entries.set('data', JSON.stringify(data));
+    }
+  }
+
+  /**
+   * 获取内容的名称
+   * @param {StorageEntry} entry - 内容
+   * @returns {string} - 名称
+   */
+  locate(entry: StorageEntry): string {
+    return `${this.location}${ENTRY_SUFFIXES[entry]}`;
+  }
+
+  /**
+   * 读取内容
+   * @param {StorageEntry} entry - 内容
+   * @returns {string | undefined} - 内容，不存在时为 undefined
+   */
+  read(entry: StorageEntry): string | undefined {
+    return this.entries.get(entry);
+  }
+
+  /**
+   * 写入内容，数据变化时通知监视者
+   * @param {StorageEntry} entry - 内容
+   * @param {string} content - 内容
+   */
+  write(entry: StorageEntry, content: string): void {
+    this.entries.set(entry, content);
+    if (entry === 'data') {
+      this.listeners.forEach(listener => setImmediate(listener));
+    }
+  }
+
+  /**
+   * 追加内容
+   * @param {StorageEntry} entry - 内容
+   * @param {string} content - 追加的内容
+   */
+  append(entry: StorageEntry, content: string): void {
+    this.entries.set(entry, (this.entries.get(entry) || '') + content);
+  }
+
+  /**
+   * 删除内容
+   * @param {StorageEntry} entry - 内容
+   */
+  remove(entry: StorageEntry): void {
+    this.entries.delete(entry);
+  }
+
+  /**
+   * 加锁；同一进程内无法等待其他实例释放，已被锁定时立即抛出 DatabaseLockedError
+   */
+  lock(): void {
+    if (this.locked) {
+      throw new DatabaseLockedError(this.location, `${this.location}.lock`, process.pid);
+    }
+    this.locked = true;
+  }
+
+  /**
+   * 释放锁
+   */
+  unlock(): void {
+    this.locked = false;
+  }
+
+  /**
+   * 监视其他实例对数据的写入
+   * @param {function} listener - 数据变化时调用
+   * @returns {function} - 停止监视的函数
+   */
+  watch(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+/**
+ * 检查进程是否存在
+ * @param {number} pid - 进程 ID
+ * @returns {boolean} - 是否存在
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM 表示进程存在但无权发送信号
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
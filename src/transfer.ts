@@ -0,0 +1,443 @@
+import { StringDecoder } from 'string_decoder';
+import * as _ from 'lodash';
+import {
+  CsvColumn,
+  CsvColumnType,
+  ExportOptions,
+  ImportOptions,
+  ImportSource,
+  TransferFormat
+} from './types';
+
+/**
+ * 从输入中读取的一条记录
+ */
+export interface ParsedRecord {
+  /**
+   * 记录在输入中的序号，从 1 开始
+   */
+  row: number;
+
+  /**
+   * 记录的原始文本
+   */
+  raw: string;
+
+  /**
+   * 解析后的记录
+   */
+  record?: any;
+
+  /**
+   * 解析失败的原因
+   */
+  error?: Error;
+}
+
+/**
+ * 逐条读取输入中的记录；单条记录解析失败时带上 error 继续读取，输入结构损坏时抛出错误
+ * @param {ImportSource} source - 数据来源
+ * @param {ImportOptions} options - 导入选项
+ * @returns {AsyncGenerator<ParsedRecord>} - 记录
+ */
+export function readRecords(source: ImportSource, options: ImportOptions): AsyncGenerator<ParsedRecord> {
+  switch (options.format) {
+    case 'ndjson':
+      return readNdjson(source);
+    case 'csv':
+      return readCsv(source, options);
+    case 'json':
+      return readJsonArray(source);
+    default:
+      throw new Error(`Unsupported import format "${options.format}".`);
+  }
+}
+
+/**
+ * 把数据块解码为文本，多字节字符跨块时也能正确解码
+ * @param {ImportSource} source - 数据来源
+ * @returns {AsyncGenerator<string>} - 文本块
+ */
+async function* readText(source: ImportSource): AsyncGenerator<string> {
+  const decoder = new StringDecoder('utf8');
+  let first = true;
+  for await (const chunk of source) {
+    let text = typeof chunk === 'string' ? chunk : decoder.write(Buffer.from(chunk));
+    // 去掉开头的字节顺序标记（常见于表格软件导出的 CSV）
+    if (first && text !== '') {
+      text = text.replace(/^\uFEFF/, '');
+      first = false;
+    }
+    yield text;
+  }
+  yield decoder.end();
+}
+
+/**
+ * 按 JSON 解析一条记录的文本
+ * @param {string} raw - 原始文本
+ * @param {number} row - 序号
+ * @returns {ParsedRecord} - 记录
+ */
+function parseJsonRecord(raw: string, row: number): ParsedRecord {
+  try {
+    return { row, raw, record: JSON.parse(raw) };
+  } catch (error) {
+    return { row, raw, error: error as Error };
+  }
+}
+
+/**
+ * 读取每行一条 JSON 记录的输入，跳过空行
+ * @param {ImportSource} source - 数据来源
+ * @returns {AsyncGenerator<ParsedRecord>} - 记录
+ */
+async function* readNdjson(source: ImportSource): AsyncGenerator<ParsedRecord> {
+  // 未完成的行在之前各块中的部分，行结束时才拼接，长行不会被反复复制
+  let parts: string[] = [];
+  let row = 0;
+  for await (const chunk of readText(source)) {
+    const lines = chunk.split('\n');
+    if (lines.length === 1) {
+      parts.push(chunk);
+      continue;
+    }
+    lines[0] = parts.join('') + lines[0];
+    parts = [lines.pop() as string];
+    for (const line of lines) {
+      if (line.trim() !== '') {
+        yield parseJsonRecord(line.trim(), ++row);
+      }
+    }
+  }
+  const rest = parts.join('');
+  if (rest.trim() !== '') {
+    yield parseJsonRecord(rest.trim(), ++row);
+  }
+}
+
+/**
+ * 读取 CSV 输入；带引号的字段可以包含分隔符、换行和转义的引号（""）
+ * @param {ImportSource} source - 数据来源
+ * @param {ImportOptions} options - 导入选项
+ * @returns {AsyncGenerator<ParsedRecord>} - 记录
+ */
+async function* readCsv(source: ImportSource, options: ImportOptions): AsyncGenerator<ParsedRecord> {
+  const delimiter = options.delimiter || ',';
+  let headers = options.headers;
+  let parts: string[] = [];
+  let quoted = false;
+  let row = 0;
+
+  const toRecord = (line: string): ParsedRecord | undefined => {
+    const raw = line.endsWith('\r') ? line.slice(0, -1) : line;
+    if (raw === '') {
+      return undefined;
+    }
+    const values = splitCsvLine(raw, delimiter);
+    if (!headers) {
+      headers = values;
+      return undefined;
+    }
+    row++;
+    try {
+      return { row, raw, record: buildCsvRecord(headers, values, options.columns || {}) };
+    } catch (error) {
+      return { row, raw, error: error as Error };
+    }
+  };
+
+  // 引号状态跨块保存，每个字符只扫描一次；未完成记录的各部分在记录结束时才拼接
+  for await (const chunk of readText(source)) {
+    let start = 0;
+    for (let i = 0; i < chunk.length; i++) {
+      if (chunk[i] === '"') {
+        quoted = !quoted;
+      } else if (chunk[i] === '\n' && !quoted) {
+        parts.push(chunk.slice(start, i));
+        const parsed = toRecord(parts.join(''));
+        parts = [];
+        if (parsed) {
+          yield parsed;
+        }
+        start = i + 1;
+      }
+    }
+    parts.push(chunk.slice(start));
+  }
+
+  const parsed = toRecord(parts.join(''));
+  if (parsed) {
+    yield parsed;
+  }
+}
+
+/**
+ * 拆分一行 CSV 的字段并去掉引号
+ * @param {string} line - 一行 CSV
+ * @param {string} delimiter - 分隔符
+ * @returns {string[]} - 字段
+ */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const values: string[] = [];
+  let value = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (line.startsWith(delimiter, i)) {
+      values.push(value);
+      value = '';
+      i += delimiter.length - 1;
+    } else {
+      value += char;
+    }
+  }
+  values.push(value);
+  return values;
+}
+
+/**
+ * 按列配置把一行 CSV 转换为记录，空单元格不写入字段
+ * @param {string[]} headers - 列名
+ * @param {string[]} values - 字段
+ * @param {object} columns - 列配置
+ * @returns {object} - 记录
+ */
+function buildCsvRecord(
+  headers: string[],
+  values: string[],
+  columns: Record<string, CsvColumnType | CsvColumn | false>
+): Record<string, any> {
+  if (values.length > headers.length) {
+    throw new Error(`Row has ${values.length} columns, expected at most ${headers.length}.`);
+  }
+
+  const record: Record<string, any> = {};
+  headers.forEach((header, i) => {
+    const column = columns[header];
+    if (column === false || values[i] === undefined || values[i] === '') {
+      return;
+    }
+    const { field = header, type = 'string' } = typeof column === 'string' ? { type: column } : column || {};
+    _.set(record, field, convertCsvValue(values[i], type, header));
+  });
+  return record;
+}
+
+/**
+ * 把 CSV 单元格转换为列的值类型
+ * @param {string} value - 单元格文本
+ * @param {CsvColumnType} type - 值类型
+ * @param {string} header - 列名，用于错误信息
+ * @returns {any} - 转换后的值
+ */
+function convertCsvValue(value: string, type: CsvColumnType, header: string): any {
+  switch (type) {
+    case 'string':
+      return value;
+    case 'number':
+    case 'integer': {
+      const number = Number(value.trim());
+      if (value.trim() === '' || (type === 'number' ? !Number.isFinite(number) : !Number.isInteger(number))) {
+        throw new Error(`Column "${header}" must be ${type === 'number' ? 'a number' : 'an integer'}, got "${value}".`);
+      }
+      return number;
+    }
+    case 'boolean': {
+      const normalized = value.trim().toLowerCase();
+      if (['true', '1', 'yes'].includes(normalized)) {
+        return true;
+      }
+      if (['false', '0', 'no'].includes(normalized)) {
+        return false;
+      }
+      throw new Error(`Column "${header}" must be a boolean, got "${value}".`);
+    }
+    case 'date': {
+      const date = new Date(value.trim());
+      if (isNaN(date.getTime())) {
+        throw new Error(`Column "${header}" must be a date, got "${value}".`);
+      }
+      return date.toISOString();
+    }
+    case 'json':
+      try {
+        return JSON.parse(value);
+      } catch {
+        throw new Error(`Column "${header}" must be valid JSON, got "${value}".`);
+      }
+    default:
+      throw new Error(`Unknown CSV column type "${type}".`);
+  }
+}
+
+/**
+ * 读取 JSON 数组输入，逐个元素解析，不需要把整个数组读入内存
+ * @param {ImportSource} source - 数据来源
+ * @returns {AsyncGenerator<ParsedRecord>} - 记录
+ */
+async function* readJsonArray(source: ImportSource): AsyncGenerator<ParsedRecord> {
+  // 未完成元素在之前各块中的部分，元素结束时才拼接
+  let parts: string[] = [];
+  let opened = false;
+  let closed = false;
+  let row = 0;
+  // 嵌套深度和字符串状态跨块保存，每个字符只扫描一次
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for await (const chunk of readText(source)) {
+    let i = 0;
+    if (closed) {
+      if (chunk.trim() !== '') {
+        throw new Error('Unexpected content after the JSON array.');
+      }
+      continue;
+    }
+    if (!opened) {
+      while (i < chunk.length && /\s/.test(chunk[i])) {
+        i++;
+      }
+      if (i === chunk.length) {
+        continue;
+      }
+      if (chunk[i] !== '[') {
+        throw new Error('JSON import expects an array of records.');
+      }
+      opened = true;
+      i++;
+    }
+
+    let start = i;
+    for (; i < chunk.length; i++) {
+      const char = chunk[i];
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        depth++;
+      } else if ((char === '}' || char === ']') && depth > 0) {
+        depth--;
+      } else if ((char === ',' || char === ']') && depth === 0) {
+        parts.push(chunk.slice(start, i));
+        const raw = parts.join('').trim();
+        parts = [];
+        if (raw !== '') {
+          yield parseJsonRecord(raw, ++row);
+        }
+        start = i + 1;
+        if (char === ']') {
+          closed = true;
+          break;
+        }
+      }
+    }
+
+    if (!closed) {
+      parts.push(chunk.slice(start));
+    } else if (chunk.slice(start).trim() !== '') {
+      throw new Error('Unexpected content after the JSON array.');
+    }
+  }
+
+  if (opened && !closed) {
+    throw new Error('Unexpected end of JSON input: the array is not closed.');
+  }
+}
+
+/**
+ * 逐条序列化记录
+ * @param {any[]} records - 记录
+ * @param {TransferFormat} format - 数据格式
+ * @param {ExportOptions} options - 导出选项
+ * @returns {Generator<string>} - 文本块
+ */
+export function formatRecords(records: any[], format: TransferFormat, options: ExportOptions): Generator<string> {
+  switch (format) {
+    case 'ndjson':
+      return formatNdjson(records);
+    case 'csv':
+      return formatCsv(records, options);
+    case 'json':
+      return formatJsonArray(records);
+    default:
+      throw new Error(`Unsupported export format "${format}".`);
+  }
+}
+
+/**
+ * 每行输出一条 JSON 记录
+ * @param {any[]} records - 记录
+ * @returns {Generator<string>} - 文本块
+ */
+function* formatNdjson(records: any[]): Generator<string> {
+  for (const record of records) {
+    yield JSON.stringify(record) + '\n';
+  }
+}
+
+/**
+ * 输出 JSON 数组，每个元素占一行
+ * @param {any[]} records - 记录
+ * @returns {Generator<string>} - 文本块
+ */
+function* formatJsonArray(records: any[]): Generator<string> {
+  if (records.length === 0) {
+    yield '[]\n';
+    return;
+  }
+  for (let i = 0; i < records.length; i++) {
+    yield (i === 0 ? '[\n  ' : ',\n  ') + JSON.stringify(records[i]);
+  }
+  yield '\n]\n';
+}
+
+/**
+ * 输出带表头的 CSV；对象和数组按 JSON 写入单元格
+ * @param {any[]} records - 记录
+ * @param {ExportOptions} options - 导出选项
+ * @returns {Generator<string>} - 文本块
+ */
+function* formatCsv(records: any[], options: ExportOptions): Generator<string> {
+  const delimiter = options.delimiter || ',';
+  const columns = options.columns || _.uniq(_.flatMap(records, record => _.isPlainObject(record) ? Object.keys(record) : []));
+  const toLine = (values: any[]) => values.map(value => formatCsvValue(value, delimiter)).join(delimiter) + '\n';
+
+  yield toLine(columns);
+  for (const record of records) {
+    yield toLine(columns.map(column => _.get(record, column)));
+  }
+}
+
+/**
+ * 把值写为 CSV 单元格，包含分隔符、引号或换行时加引号
+ * @param {any} value - 值
+ * @param {string} delimiter - 分隔符
+ * @returns {string} - 单元格文本
+ */
+function formatCsvValue(value: any, delimiter: string): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = _.isObject(value) ? JSON.stringify(value) : String(value);
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
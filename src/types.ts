@@ -1,3 +1,5 @@
+import type NodedbJson from './index';
+
 /**
  * 表示任何 JavaScript 值的类型
  */
@@ -9,37 +11,224 @@ export type AnyValue = any;
 export type PredicateFunction<T> = (item: T) => boolean;
 
 /**
- * 表示更新器对象的类型
+ * 表示更新器对象的类型：要合并到记录中的字段，或更新操作符对象
  */
 export type UpdaterObject = Record<string, any>;
 
+/**
+ * 更新操作符，每个操作符的键为字段路径（如 "stats.views"）
+ * 操作符不能与普通字段混用
+ */
+export type UpdateOperators = {
+  /**
+   * 设置字段的值
+   */
+  $set?: Record<string, any>;
+  
+  /**
+   * 删除字段，值被忽略
+   */
+  $unset?: Record<string, any>;
+  
+  /**
+   * 把数值字段加上操作数，字段不存在时设为操作数
+   */
+  $inc?: Record<string, number>;
+  
+  /**
+   * 把数值字段乘以操作数，字段不存在时设为 0
+   */
+  $mul?: Record<string, number>;
+  
+  /**
+   * 操作数小于字段值（或字段不存在）时替换
+   */
+  $min?: Record<string, any>;
+  
+  /**
+   * 操作数大于字段值（或字段不存在）时替换
+   */
+  $max?: Record<string, any>;
+  
+  /**
+   * 向数组字段追加元素，{ $each: [...] } 追加多个；字段不存在时创建数组
+   */
+  $push?: Record<string, any>;
+  
+  /**
+   * 从数组字段删除等于操作数或匹配条件的元素
+   */
+  $pull?: Record<string, any>;
+  
+  /**
+   * 向数组字段追加尚不存在的元素，{ $each: [...] } 追加多个
+   */
+  $addToSet?: Record<string, any>;
+  
+  /**
+   * 把字段移动到新的路径
+   */
+  $rename?: Record<string, string>;
+};
+
 /**
  * 索引的类型
  */
-export type IndexType = 'unique' | 'multi';
+export type IndexType = 'unique' | 'multi' | 'sorted';
 
 /**
  * 索引结构
  */
 export interface IndexDefinition {
   /**
-   * 索引类型：unique (唯一索引) 或 multi (多值索引)
+   * 索引类型：unique (唯一索引)、multi (多值索引) 或 sorted (有序索引，支持范围查询和排序)
    */
   type: IndexType;
   
   /**
-   * 索引的字段
+   * 索引的字段，支持点号分隔的嵌套路径；传入字段列表时创建复合索引，唯一性和查找都基于字段组合
    */
-  field: string;
+  field: string | string[];
+  
+  /**
+   * 多键索引：数组字段的每个元素各生成一个索引项，而不是把整个数组作为一个值
+   */
+  multikey?: boolean;
 }
 
 /**
- * 内部索引存储格式
+ * 内部索引存储格式：字段值 -> 记录引用集合
+ * 索引项保存记录对象本身而不是数组下标，数组的插入和删除不会使其他索引项失效
  */
 export interface IndexStore {
-  [key: string]: {
-    [fieldValue: string]: number | number[];
-  }
+  [key: string]: Map<string, Set<any>> | SortedIndex;
+}
+
+/**
+ * 有序索引的条目
+ */
+export interface SortedIndexEntry {
+  /**
+   * 字段值（数字、字符串或布尔值，日期转换为时间戳）
+   */
+  value: any;
+  
+  /**
+   * 字段值等于该值的记录
+   */
+  items: Set<any>;
+}
+
+/**
+ * 有序索引：按类型化比较排序的条目列表
+ */
+export interface SortedIndex {
+  /**
+   * 按字段值升序排列的条目
+   */
+  entries: SortedIndexEntry[];
+  
+  /**
+   * 字段值缺失或无法排序的记录
+   */
+  missing: Set<any>;
+}
+
+/**
+ * 字段级查询操作符
+ */
+export interface FieldOperators<V = any> {
+  /**
+   * 等于
+   */
+  $eq?: V;
+  
+  /**
+   * 不等于
+   */
+  $ne?: V;
+  
+  /**
+   * 大于
+   */
+  $gt?: V;
+  
+  /**
+   * 大于等于
+   */
+  $gte?: V;
+  
+  /**
+   * 小于
+   */
+  $lt?: V;
+  
+  /**
+   * 小于等于
+   */
+  $lte?: V;
+  
+  /**
+   * 值在给定列表中
+   */
+  $in?: V[];
+  
+  /**
+   * 值不在给定列表中
+   */
+  $nin?: V[];
+  
+  /**
+   * 字段是否存在
+   */
+  $exists?: boolean;
+  
+  /**
+   * 正则匹配（仅匹配字符串值）
+   */
+  $regex?: RegExp | string;
+  
+  /**
+   * $regex 为字符串时使用的正则标志
+   */
+  $options?: string;
+  
+  /**
+   * 对字段条件取反
+   */
+  $not?: FieldOperators<V> | RegExp;
+  
+  /**
+   * 数组中至少有一个元素匹配条件
+   */
+  $elemMatch?: WhereCondition | FieldOperators;
+}
+
+/**
+ * 字段条件：直接给出值表示相等匹配，也可以使用操作符对象
+ */
+export type FieldCondition<V = any> = V | RegExp | FieldOperators<V>;
+
+/**
+ * 对象形式的过滤条件，字段名支持点号分隔的嵌套路径
+ */
+export interface WhereCondition<T = any> {
+  /**
+   * 所有子条件都匹配
+   */
+  $and?: WhereCondition<T>[];
+  
+  /**
+   * 任一子条件匹配
+   */
+  $or?: WhereCondition<T>[];
+  
+  /**
+   * 子条件不匹配
+   */
+  $not?: WhereCondition<T>;
+  
+  [field: string]: FieldCondition | WhereCondition<T>[] | undefined;
 }
 
 /**
@@ -179,7 +368,7 @@ export interface QueryOptions<T = any> {
   /**
    * 过滤条件
    */
-  where?: PredicateFunction<T> | Record<string, any>;
+  where?: PredicateFunction<T> | WhereCondition<T>;
   
   /**
    * 排序选项
@@ -262,9 +451,9 @@ export interface QueryResult<T = any> {
  */
 export interface DbOptions {
   /**
-   * 是否在每次修改后自动保存
+   * 是否在每次修改后自动保存；传入对象时启用防抖保存
    */
-  autoSave?: boolean;
+  autoSave?: boolean | AutoSaveOptions;
   
   /**
    * 是否在初始化时创建文件
@@ -285,4 +474,798 @@ export interface DbOptions {
    * 是否在启动时自动创建索引
    */
   autoIndex?: boolean;
-} 
\ No newline at end of file
+  
+  /**
+   * 是否将索引定义持久化到数据文件旁的 .indexes.json 文件中
+   */
+  persistIndexes?: boolean;
+  
+  /**
+   * 是否在每次写入前保留上一版本的 .bak 备份文件
+   */
+  backup?: boolean;
+  
+  /**
+   * 主文件损坏并从备份恢复时的回调，未提供时通过 process.emitWarning 报告
+   */
+  onRecover?: (info: RecoveryInfo) => void;
+  
+  /**
+   * 各集合的主键配置，键为集合路径；未配置的集合使用 id 字段和自增整数
+   */
+  primaryKeys?: Record<string, IdStrategy | PrimaryKeyOptions>;
+  
+  /**
+   * 是否启用预写日志：修改追加到 <filePath>.wal，而不是每次重写整个数据文件
+   */
+  journal?: boolean | JournalOptions;
+  
+  /**
+   * 是否通过 <filePath>.lock 锁文件独占数据库，防止多个进程同时写入
+   */
+  lock?: boolean | LockOptions;
+  
+  /**
+   * 只读模式：不获取写锁，不创建或修改任何文件，修改操作会抛出错误
+   */
+  readOnly?: boolean;
+  
+  /**
+   * 是否监视数据文件，被外部修改时重新加载数据并重建索引
+   */
+  watch?: boolean | WatchOptions;
+  
+  /**
+   * 按路径注册的数据结构定义，写入前校验，也可以之后通过 registerSchema 注册
+   */
+  schemas?: Record<string, SchemaDefinition>;
+  
+  /**
+   * 校验选项，作为所有结构定义的默认值
+   */
+  validation?: ValidationOptions;
+  
+  /**
+   * 按顺序排列的数据迁移，第 n 个迁移把数据升级到版本 n；打开数据库时执行尚未应用的迁移
+   */
+  migrations?: Migration[];
+  
+  /**
+   * 数据文件中保存版本号的顶层键，默认为 _schemaVersion
+   */
+  versionKey?: string;
+  
+  /**
+   * 加密数据文件和预写日志
+   */
+  encryption?: EncryptionOptions;
+  
+  /**
+   * 多文件模式：每个顶层键保存为目录中的一个文件，首次访问时加载，保存时只写入修改过的文件
+   * 不支持 journal 和 watch，默认为 false
+   */
+  multiFile?: boolean;
+}
+
+/**
+ * 32 字节的 AES-256 密钥：Buffer，或十六进制、base64 编码的字符串
+ */
+export type EncryptionKey = string | Buffer;
+
+/**
+ * 返回密钥的同步函数，每次加密和解密时调用，可以从密钥管理服务或环境变量读取
+ */
+export type EncryptionKeyProvider = () => EncryptionKey;
+
+/**
+ * 加密选项
+ */
+export interface EncryptionOptions {
+  /**
+   * 密钥或返回密钥的函数
+   */
+  key: EncryptionKey | EncryptionKeyProvider;
+  
+  /**
+   * 只加密这些字段路径上的值，其余内容保持明文；路径经过数组时作用于每个元素。未提供时加密整个文件
+   */
+  fields?: string[];
+}
+
+/**
+ * 加密后的值，使用 AES-256-GCM，各部分为 base64 编码
+ */
+export interface EncryptedValue {
+  $encrypted: {
+    alg: string;
+    iv: string;
+    tag: string;
+    data: string;
+  };
+}
+
+/**
+ * 数据迁移
+ */
+export interface Migration {
+  /**
+   * 迁移名称，用于错误信息
+   */
+  name?: string;
+  
+  /**
+   * 升级数据的同步函数，可以使用数据库实例的所有方法
+   */
+  up: (db: NodedbJson) => void;
+}
+
+/**
+ * 结构定义支持的值类型
+ */
+export type SchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * JSON Schema 的子集
+ */
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  
+  /**
+   * 值类型，传入列表时满足任一类型即可
+   */
+  type?: SchemaType | SchemaType[];
+  
+  /**
+   * 允许的值
+   */
+  enum?: any[];
+  const?: any;
+  
+  /**
+   * 对象字段的结构定义
+   */
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  
+  /**
+   * 是否允许 properties 以外的字段，传入结构定义时用于校验这些字段
+   */
+  additionalProperties?: boolean | JsonSchema;
+  
+  /**
+   * 数组元素的结构定义
+   */
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  
+  /**
+   * 字段缺失时使用的默认值，启用 useDefaults 后生效
+   */
+  default?: any;
+}
+
+/**
+ * 简写的结构定义：
+ * 'string'、'number?'（可选）、'string[]'（字符串数组）等类型字符串；
+ * [定义] 表示元素符合该定义的数组；普通对象表示字段结构，字段名以 ? 结尾表示可选
+ */
+export type SchemaShorthand = string | [SchemaShorthand] | { [field: string]: SchemaShorthand | JsonSchema };
+
+/**
+ * 结构定义：带有 $schema，或 type 为已知类型且只包含支持的关键字的对象按 JSON Schema 解析，其余按简写解析
+ */
+export type SchemaDefinition = JsonSchema | SchemaShorthand;
+
+/**
+ * 校验选项
+ */
+export interface ValidationOptions {
+  /**
+   * 用结构定义中的 default 填充缺失的字段，默认为 false
+   */
+  useDefaults?: boolean;
+  
+  /**
+   * 把类型不符的值转换为目标类型，例如 "42" 转换为 42，默认为 false
+   */
+  coerceTypes?: boolean;
+}
+
+/**
+ * 一处校验失败
+ */
+export interface ValidationIssue {
+  /**
+   * 失败的值的完整路径
+   */
+  path: string;
+  
+  /**
+   * 未通过的关键字，例如 type、required、minimum
+   */
+  keyword: string;
+  
+  /**
+   * 失败原因
+   */
+  message: string;
+  
+  /**
+   * 失败的值
+   */
+  value: any;
+}
+
+/**
+ * 外部修改与未保存的修改冲突时的处理方式：
+ * reload 丢弃未保存的修改并加载外部内容；keep 保留内存中的数据，下次保存时覆盖外部修改；
+ * 传入函数时由函数返回合并后的数据，合并结果作为一次修改保存
+ */
+export type WatchConflictPolicy = 'reload' | 'keep' | ((conflict: WatchConflict) => Record<string, any>);
+
+/**
+ * 监视模式的选项
+ */
+export interface WatchOptions {
+  /**
+   * 检查文件变化的间隔毫秒数，默认为 500
+   */
+  interval?: number;
+  
+  /**
+   * 冲突处理方式，默认为 reload
+   */
+  onConflict?: WatchConflictPolicy;
+}
+
+/**
+ * 外部修改与未保存的修改冲突时的信息
+ */
+export interface WatchConflict {
+  /**
+   * 内存中包含未保存修改的数据
+   */
+  local: Record<string, any>;
+  
+  /**
+   * 外部修改后的文件数据
+   */
+  external: Record<string, any>;
+}
+
+/**
+ * 变更事件的操作类型
+ */
+export type ChangeType = 'set' | 'push' | 'update' | 'delete' | 'transaction';
+
+/**
+ * 变更事件（change）的参数
+ */
+export interface ChangeEvent {
+  /**
+   * 被修改的路径，事务提交事件为空字符串
+   */
+  key: string;
+  
+  /**
+   * 操作类型
+   */
+  type: ChangeType;
+  
+  /**
+   * 修改前的值：set 为原值，update 为修改前的记录副本，delete 为被删除的记录或值，push 为 undefined
+   */
+  oldValue: any;
+  
+  /**
+   * 修改后的值：set 为新值，update 为修改后的记录，push 为追加的记录，delete 为 undefined
+   */
+  newValue: any;
+  
+  /**
+   * 受影响记录的主键
+   */
+  ids: any[];
+  
+  /**
+   * 事务提交事件中包含的全部变更
+   */
+  changes?: ChangeEvent[];
+}
+
+/**
+ * 重新加载事件（reload）的参数
+ */
+export interface ReloadEvent {
+  /**
+   * 数据文件路径
+   */
+  filePath: string;
+  
+  /**
+   * 是否与未保存的修改冲突
+   */
+  conflict: boolean;
+  
+  /**
+   * 冲突的处理结果：reload 为加载外部内容，keep 为保留内存数据，merge 为使用合并结果
+   */
+  resolution: 'reload' | 'keep' | 'merge';
+}
+
+/**
+ * 存储中的各项内容：数据、备份、预写日志和索引定义
+ */
+export type StorageEntry = 'data' | 'backup' | 'journal' | 'indexes';
+
+/**
+ * 存储后端，NodedbJson 通过它读写数据；可选的方法未实现时使用读写组合，或禁用对应功能
+ */
+export interface StorageAdapter {
+  /**
+   * 存储位置的描述，例如文件路径，用于错误信息和事件
+   */
+  readonly location: string;
+  
+  /**
+   * 读取内容，不存在时返回 undefined
+   */
+  read(entry: StorageEntry): string | undefined;
+  
+  /**
+   * 原子地替换内容
+   */
+  write(entry: StorageEntry, content: string): void;
+  
+  /**
+   * 删除内容，不存在时忽略
+   */
+  remove(entry: StorageEntry): void;
+  
+  /**
+   * 异步读取，未实现时使用 read
+   */
+  readAsync?(entry: StorageEntry): Promise<string | undefined>;
+  
+  /**
+   * 异步写入，未实现时使用 write
+   */
+  writeAsync?(entry: StorageEntry, content: string): Promise<void>;
+  
+  /**
+   * 追加内容并持久化，用于预写日志；未实现时读取后整体写入
+   */
+  append?(entry: StorageEntry, content: string): void;
+  
+  /**
+   * 异步追加，未实现时使用 append
+   */
+  appendAsync?(entry: StorageEntry, content: string): Promise<void>;
+  
+  /**
+   * 获取独占锁，无法获取时抛出 DatabaseLockedError；未实现时不能启用 lock 选项
+   */
+  lock?(options: Required<LockOptions>): void;
+  
+  /**
+   * 释放锁
+   */
+  unlock?(): void;
+  
+  /**
+   * 监视数据被外部修改，返回停止监视的函数；未实现时不能启用 watch 选项
+   */
+  watch?(listener: () => void, interval: number): () => void;
+  
+  /**
+   * 各项内容的位置描述，用于错误信息
+   */
+  locate?(entry: StorageEntry): string;
+  
+  /**
+   * 列出多文件模式下已保存的顶层键，存储尚不存在时返回 undefined；未实现时不能启用 multiFile 选项
+   */
+  listKeys?(): string[] | undefined;
+  
+  /**
+   * 获取多文件模式下保存某个顶层键的存储，其 data 项即该键的值
+   */
+  forKey?(key: string): StorageAdapter;
+}
+
+/**
+ * 文件锁的选项
+ */
+export interface LockOptions {
+  /**
+   * 锁被占用时等待的毫秒数，超时后抛出 DatabaseLockedError，默认为 0（不等待）
+   */
+  timeout?: number;
+  
+  /**
+   * 等待期间重试的间隔毫秒数，默认为 100
+   */
+  retryInterval?: number;
+  
+  /**
+   * 锁文件超过该毫秒数未刷新时视为过期，默认为 30000；持有者会定期刷新锁文件
+   */
+  staleMs?: number;
+}
+
+/**
+ * 预写日志的选项
+ */
+export interface JournalOptions {
+  /**
+   * 日志条目达到该数量时自动压缩到数据文件，默认为 1000
+   */
+  maxEntries?: number;
+}
+
+/**
+ * 预写日志中的一条记录，每条占一行
+ */
+export type JournalEntry =
+  | { op: 'set'; key: string; value: any }
+  | { op: 'unset'; key: string | string[] }
+  | { op: 'push'; key: string; values: any[] }
+  | { op: 'replace'; key: string; positions: number[]; values: any[] }
+  | { op: 'remove'; key: string; positions: number[] };
+
+/**
+ * 自定义主键生成函数
+ */
+export type IdGenerator = (doc: any, collection: string) => any;
+
+/**
+ * 主键生成策略：自增整数、UUID、ULID 或自定义生成函数
+ */
+export type IdStrategy = 'increment' | 'uuid' | 'ulid' | IdGenerator;
+
+/**
+ * 集合的主键配置
+ */
+export interface PrimaryKeyOptions {
+  /**
+   * 主键字段，支持点号分隔的嵌套路径，默认为 id
+   */
+  field?: string;
+  
+  /**
+   * 主键生成策略，默认为 increment
+   */
+  strategy?: IdStrategy;
+}
+
+/**
+ * 防抖自动保存的选项
+ */
+export interface AutoSaveOptions {
+  /**
+   * 最后一次修改后等待的毫秒数，期间没有新修改时保存，默认为 1000
+   */
+  debounceMs?: number;
+  
+  /**
+   * 未保存的修改达到该数量时立即保存，不设置时只按 debounceMs 保存
+   */
+  maxPendingChanges?: number;
+}
+
+/**
+ * 从备份文件恢复时的信息
+ */
+export interface RecoveryInfo {
+  /**
+   * 损坏的主文件路径
+   */
+  filePath: string;
+  
+  /**
+   * 用于恢复的备份文件路径
+   */
+  backupPath: string;
+  
+  /**
+   * 读取主文件时的错误
+   */
+  error: Error;
+} 
+
+/**
+ * snapshot 的选项
+ */
+export interface SnapshotOptions {
+  /**
+   * dest 为目录，快照写入其中的 snapshot-<时间>.json，文件名按时间排序
+   */
+  timestamped?: boolean;
+  
+  /**
+   * 只保留目录中最新的 N 个带时间戳的快照，需要同时启用 timestamped
+   */
+  retain?: number;
+}
+
+/**
+ * 写入的快照
+ */
+export interface SnapshotInfo {
+  /**
+   * 快照数据文件的位置
+   */
+  location: string;
+  
+  /**
+   * 快照时间（ISO 8601）
+   */
+  createdAt: string;
+}
+
+/**
+ * 导入导出的数据格式：每行一条 JSON 记录、带表头的 CSV，或 JSON 数组
+ */
+export type TransferFormat = 'ndjson' | 'csv' | 'json';
+
+/**
+ * 导入的数据来源，如 fs.createReadStream 返回的流
+ */
+export type ImportSource = AsyncIterable<string | Buffer | Uint8Array>;
+
+/**
+ * CSV 列的值类型；date 转换为 ISO 8601 字符串，json 按 JSON 解析
+ */
+export type CsvColumnType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'json';
+
+/**
+ * CSV 列到记录字段的映射
+ */
+export interface CsvColumn {
+  /**
+   * 写入的字段路径，默认为列名
+   */
+  field?: string;
+  
+  /**
+   * 值类型，默认为 string
+   */
+  type?: CsvColumnType;
+}
+
+/**
+ * importCollection 的选项
+ */
+export interface ImportOptions {
+  /**
+   * 数据格式
+   */
+  format: TransferFormat;
+  
+  /**
+   * CSV 分隔符，默认为逗号
+   */
+  delimiter?: string;
+  
+  /**
+   * CSV 的列名；提供时第一行也作为数据，否则第一行为表头
+   */
+  headers?: string[];
+  
+  /**
+   * 按列名配置 CSV 列的字段和类型；false 表示忽略该列，未配置的列按字符串写入同名字段
+   */
+  columns?: Record<string, CsvColumnType | CsvColumn | false>;
+  
+  /**
+   * 每批插入的记录数，每批插入后保存并报告进度，默认为 1000
+   */
+  batchSize?: number;
+  
+  /**
+   * 每批插入后调用
+   */
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+/**
+ * 导入进度
+ */
+export interface ImportProgress {
+  /**
+   * 已读取的记录数
+   */
+  processed: number;
+  
+  /**
+   * 已插入的记录数
+   */
+  imported: number;
+  
+  /**
+   * 被拒绝的记录数
+   */
+  rejected: number;
+}
+
+/**
+ * 被拒绝的记录
+ */
+export interface ImportRejection {
+  /**
+   * 记录在输入中的序号，从 1 开始，不含 CSV 表头
+   */
+  row: number;
+  
+  /**
+   * 记录的原始文本
+   */
+  raw: string;
+  
+  /**
+   * 解析后的记录，无法解析时为 undefined
+   */
+  record?: any;
+  
+  /**
+   * 拒绝的原因，如解析错误、ValidationError 或 UniqueConstraintError
+   */
+  error: Error;
+}
+
+/**
+ * importCollection 的结果
+ */
+export interface ImportResult {
+  /**
+   * 插入的记录数
+   */
+  imported: number;
+  
+  /**
+   * 被拒绝的记录
+   */
+  rejected: ImportRejection[];
+}
+
+/**
+ * exportCollection 的选项
+ */
+export interface ExportOptions<T = any> {
+  /**
+   * 只导出匹配条件的记录
+   */
+  where?: PredicateFunction<T> | WhereCondition<T>;
+  
+  /**
+   * CSV 的列（字段路径），默认为所有记录顶层字段的并集
+   */
+  columns?: string[];
+  
+  /**
+   * CSV 分隔符，默认为逗号
+   */
+  delimiter?: string;
+}
+
+/**
+ * 不再展开嵌套路径的值类型
+ */
+type PathLeaf = string | number | boolean | bigint | symbol | null | undefined | Date | RegExp | Function | readonly any[];
+
+/**
+ * 记录类型 T 的所有字段路径（包括点号分隔的嵌套路径，最多展开 5 层）
+ */
+export type Path<T, Depth extends unknown[] = []> = Depth['length'] extends 5
+  ? never
+  : T extends PathLeaf
+    ? never
+    : {
+        [K in keyof T & string]: NonNullable<T[K]> extends PathLeaf
+          ? K
+          : K | `${K}.${Path<NonNullable<T[K]>, [...Depth, unknown]>}`;
+      }[keyof T & string];
+
+/**
+ * 记录类型 T 在路径 P 上的值类型
+ */
+export type PathValue<T, P extends string> = P extends `${infer K}.${infer Rest}`
+  ? K extends keyof T
+    ? PathValue<NonNullable<T[K]>, Rest>
+    : never
+  : P extends keyof T
+    ? T[P]
+    : never;
+
+/**
+ * 类型化的字段条件：数组字段也可以直接按元素匹配
+ */
+export type TypedFieldCondition<V> = V extends readonly (infer E)[]
+  ? FieldCondition<V> | FieldCondition<E>
+  : FieldCondition<V>;
+
+/**
+ * 字段路径和值类型都根据记录类型 T 检查的过滤条件
+ */
+export type TypedWhereCondition<T> = {
+  [P in Path<T>]?: TypedFieldCondition<PathValue<T, P>>;
+} & {
+  /**
+   * 所有子条件都匹配
+   */
+  $and?: TypedWhereCondition<T>[];
+  
+  /**
+   * 任一子条件匹配
+   */
+  $or?: TypedWhereCondition<T>[];
+  
+  /**
+   * 子条件不匹配
+   */
+  $not?: TypedWhereCondition<T>;
+};
+
+/**
+ * 字段路径根据记录类型 T 检查的排序选项
+ */
+export interface TypedSortOption<T> {
+  /**
+   * 排序字段
+   */
+  field: Path<T>;
+  
+  /**
+   * 排序方向
+   */
+  direction: SortDirection;
+}
+
+/**
+ * 集合句柄的查询选项
+ */
+export interface CollectionQueryOptions<T> extends Omit<QueryOptions<T>, 'where' | 'sort' | 'select'> {
+  /**
+   * 过滤条件
+   */
+  where?: PredicateFunction<T> | TypedWhereCondition<T>;
+  
+  /**
+   * 排序选项
+   */
+  sort?: TypedSortOption<T> | TypedSortOption<T>[];
+  
+  /**
+   * 选择字段（投影）
+   */
+  select?: Path<T>[];
+}
+
+/**
+ * 字段路径根据记录类型 T 检查的索引定义
+ */
+export interface TypedIndexDefinition<T> extends Omit<IndexDefinition, 'field'> {
+  /**
+   * 索引的字段；传入字段列表时创建复合索引
+   */
+  field: Path<T> | Path<T>[];
+}
+
+/**
+ * 递归的部分类型，用于深度合并的更新对象
+ */
+export type DeepPartial<T> = T extends PathLeaf
+  ? T
+  : { [K in keyof T]?: DeepPartial<T[K]> };
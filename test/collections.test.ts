@@ -0,0 +1,130 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import NodedbJson, { UniqueConstraintError } from '../src/index';
+import { tempFile } from './helpers';
+
+interface User {
+  id: number;
+  name: string;
+  profile: { city: string };
+}
+
+describe('typed collections', () => {
+  it('reads and writes one collection through a handle', () => {
+    const db = new NodedbJson(tempFile());
+    const users = db.collection<User>('users');
+    
+    users.createIndex({ field: 'id', type: 'unique' });
+    users.insert([
+      { id: 1, name: 'John', profile: { city: 'Berlin' } },
+      { id: 2, name: 'Jane', profile: { city: 'Paris' } }
+    ]);
+    
+    assert.deepEqual(users.find({ 'profile.city': 'Berlin' }).map(user => user.name), ['John']);
+    assert.equal(users.findOne({ id: { $gt: 1 } })?.name, 'Jane');
+    assert.equal(users.update({ id: 1 }, { profile: { city: 'Rome' } }), 1);
+    assert.deepEqual(db.get('users.0.profile'), { city: 'Rome' });
+    assert.equal(users.count(), 2);
+    assert.deepEqual(users.distinct('profile.city').sort(), ['Paris', 'Rome']);
+    assert.equal(users.delete({ name: 'John' }), 1);
+    assert.deepEqual(Object.keys(users.getIndexes()), ['id']);
+  });
+  
+  it('updates and deletes by where condition with updateMany and deleteMany', () => {
+    const db = new NodedbJson(tempFile(), { defaultValue: { items: [{ n: 1 }, { n: 2 }, { n: 3 }] } });
+    
+    assert.equal(db.updateMany('items', { n: { $gte: 2 } }, { big: true }), 2);
+    assert.equal(db.deleteMany('items', (item: any) => item.big), 2);
+    assert.deepEqual(db.get('items'), [{ n: 1 }]);
+  });
+});
+
+describe('insertOne and insertMany', () => {
+  it('generates incrementing ids after the largest existing or explicitly given id', () => {
+    const db = new NodedbJson(tempFile(), { defaultValue: { users: [{ id: 5, name: 'Old' }] } });
+    
+    assert.deepEqual(db.insertOne('users', { name: 'Bob' }), { name: 'Bob', id: 6 });
+    const inserted = db.insertMany('users', [{ name: 'Alice' }, { id: 10, name: 'Eve' }, { name: 'Carl' }]);
+    assert.deepEqual(inserted.map((user: any) => user.id), [11, 10, 12]);
+  });
+  
+  it('does not create an index for the primary key', () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath, { defaultValue: { users: [{ id: 1 }] } });
+    db.insertOne('users', { name: 'Bob' });
+    db.update('users', (user: any) => user.id === 2, { id: 7 });
+    
+    assert.deepEqual(db.getIndexes(), {});
+    assert.equal(fs.existsSync(`${filePath}.indexes.json`), false);
+    assert.equal(db.insertOne<any>('users', {}).id, 8);
+  });
+  
+  it('supports uuid, ulid, custom generators and nested key fields', () => {
+    const db = new NodedbJson(tempFile(), {
+      primaryKeys: {
+        sessions: 'uuid',
+        events: { field: 'meta.eventId', strategy: 'ulid' },
+        tags: { strategy: (doc: any) => doc.name.toLowerCase() }
+      }
+    });
+    
+    assert.match(db.insertOne<any>('sessions', {}).id, /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    const events = db.insertMany<any>('events', [{ type: 'a' }, { type: 'b' }]);
+    assert.match(events[0].meta.eventId, /^[0-9A-HJKMNP-TV-Z]{26}$/);
+    assert.ok(events[0].meta.eventId < events[1].meta.eventId);
+    assert.equal(db.insertOne<any>('tags', { name: 'Node' }).id, 'node');
+  });
+  
+  it('does not modify the records passed in', () => {
+    const db = new NodedbJson(tempFile(), { primaryKeys: { events: { field: 'meta.id' } } });
+    const doc = { type: 'a', meta: { source: 'x' } };
+    
+    const stored = db.insertOne<any>('events', doc);
+    assert.deepEqual(doc, { type: 'a', meta: { source: 'x' } });
+    assert.equal(stored.meta.id, 1);
+    assert.notEqual(stored, doc);
+  });
+});
+
+describe('transactions', () => {
+  it('rolls back data and indexes when the callback throws', () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath, { defaultValue: { users: [{ id: 1 }] } });
+    db.createIndex('users', { field: 'id', type: 'unique' });
+    
+    assert.throws(() => db.transaction(tx => {
+      tx.push('users', { id: 2 });
+      tx.set('config', { theme: 'dark' });
+      throw new Error('abort');
+    }), /abort/);
+    
+    assert.deepEqual(db.get('users'), [{ id: 1 }]);
+    assert.equal(db.has('config'), false);
+    db.push('users', { id: 2 });
+    assert.deepEqual(new NodedbJson(filePath).get('users'), [{ id: 1 }, { id: 2 }]);
+  });
+  
+  it('returns the callback result and joins nested transactions', () => {
+    const db = new NodedbJson(tempFile());
+    const result = db.transaction(tx => {
+      tx.set('a', 1);
+      tx.transaction(inner => inner.set('b', 2));
+      return tx.get('a') + tx.get('b');
+    });
+    assert.equal(result, 3);
+  });
+  
+  it('runs a batch as one transaction and rejects unknown methods before running anything', () => {
+    const db = new NodedbJson(tempFile(), { defaultValue: { users: [] } });
+    db.createIndex('users', { field: 'id', type: 'unique' });
+    
+    assert.throws(() => db.batch([{ method: 'set', args: ['a', 1] }, { method: 'save', args: [] }]), /save/);
+    assert.equal(db.has('a'), false);
+    assert.throws(() => db.batch([
+      { method: 'push', args: ['users', { id: 1 }] },
+      { method: 'push', args: ['users', { id: 1 }] }
+    ]), UniqueConstraintError);
+    assert.deepEqual(db.get('users'), []);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import NodedbJson from '../src/index';
+import { tempFile } from './helpers';
+
+const key = crypto.randomBytes(32);
+
+describe('encryption at rest', () => {
+  it('encrypts the data file and the journal and decrypts them on open', () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath, { encryption: { key }, journal: true });
+    db.set('secret', 'swordfish');
+    db.compact();
+    db.set('later', 'hunter2');
+    db.close();
+    
+    assert.doesNotMatch(fs.readFileSync(filePath, 'utf8'), /swordfish/);
+    assert.doesNotMatch(fs.readFileSync(`${filePath}.wal`, 'utf8'), /hunter2/);
+    const reopened = new NodedbJson(filePath, { encryption: { key: () => key.toString('hex') }, journal: true });
+    assert.equal(reopened.get('secret'), 'swordfish');
+    assert.equal(reopened.get('later'), 'hunter2');
+  });
+  
+  it('rejects journal entries that were reordered, removed or copied from another journal', () => {
+    const filePath = tempFile();
+    const options = { encryption: { key }, journal: true };
+    const db = new NodedbJson(filePath, options);
+    db.set('a', 1);
+    db.set('a', 2);
+    db.set('b', 3);
+    db.close();
+    const [header, first, second, third] = fs.readFileSync(`${filePath}.wal`, 'utf8').split('\n');
+    
+    const reopen = (lines: string[]) => {
+      fs.writeFileSync(`${filePath}.wal`, [header, ...lines, ''].join('\n'));
+      return new NodedbJson(filePath, options);
+    };
+    assert.throws(() => reopen([second, first, third]), /Corrupt journal entry at line 2/);
+    assert.throws(() => reopen([first, third]), /Corrupt journal entry at line 3/);
+    assert.equal(reopen([first, second, third]).get('a'), 2);
+    
+    // 同一密钥下另一份日志的第一条记录，不能替换这份日志的第一条记录
+    const otherPath = tempFile();
+    const other = new NodedbJson(otherPath, { ...options, defaultValue: { other: true } });
+    other.set('a', 9);
+    other.close();
+    const copied = fs.readFileSync(`${otherPath}.wal`, 'utf8').split('\n')[1];
+    assert.throws(() => reopen([copied, second, third]), /Corrupt journal entry at line 2/);
+  });
+  
+  it('throws on a wrong key, a modified file or a plaintext file', () => {
+    const filePath = tempFile();
+    new NodedbJson(filePath, { encryption: { key } }).set('a', 1);
+    
+    assert.throws(() => new NodedbJson(filePath, { encryption: { key: crypto.randomBytes(32) } }));
+    const encrypted = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    encrypted.$encrypted.data = Buffer.from('{"a":2}').toString('base64');
+    fs.writeFileSync(filePath, JSON.stringify(encrypted));
+    assert.throws(() => new NodedbJson(filePath, { encryption: { key } }));
+    
+    const plainPath = tempFile();
+    fs.writeFileSync(plainPath, '{"a":1}');
+    assert.throws(() => new NodedbJson(plainPath, { encryption: { key } }), /not encrypted/);
+  });
+  
+  it('encrypts, re-keys and decrypts an existing database with rotateEncryptionKey', () => {
+    const filePath = tempFile();
+    const plain = new NodedbJson(filePath);
+    plain.set('a', 'swordfish');
+    plain.rotateEncryptionKey(key);
+    assert.doesNotMatch(fs.readFileSync(filePath, 'utf8'), /swordfish/);
+    
+    const next = crypto.randomBytes(32);
+    const db = new NodedbJson(filePath, { encryption: { key } });
+    db.rotateEncryptionKey(next);
+    assert.equal(new NodedbJson(filePath, { encryption: { key: next } }).get('a'), 'swordfish');
+    assert.throws(() => new NodedbJson(filePath, { encryption: { key } }));
+  });
+  
+  it('encrypts only the configured fields and binds each ciphertext to its path', () => {
+    const filePath = tempFile();
+    const options = { encryption: { key, fields: ['users.token'] } };
+    const db = new NodedbJson(filePath, options);
+    db.set('users', [{ id: 1, token: 'a-secret' }, { id: 2, token: 'b-secret' }]);
+    
+    const stored = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    assert.equal(stored.users[0].id, 1);
+    assert.ok(stored.users[0].token.$encrypted);
+    assert.deepEqual(new NodedbJson(filePath, options).get('users.1.token'), 'b-secret');
+    
+    // 交换两条记录的密文
+    [stored.users[0].token, stored.users[1].token] = [stored.users[1].token, stored.users[0].token];
+    fs.writeFileSync(filePath, JSON.stringify(stored));
+    assert.throws(() => new NodedbJson(filePath, options));
+    
+    stored.users[0].token = 'plaintext';
+    fs.writeFileSync(filePath, JSON.stringify(stored));
+    assert.throws(() => new NodedbJson(filePath, options), /not encrypted/);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import NodedbJson from '../src/index';
+import { ChangeEvent } from '../src/types';
+import { tempFile, waitFor } from './helpers';
+
+describe('change events', () => {
+  it('emits the key, type, values and record ids of each write', () => {
+    const db = new NodedbJson(tempFile());
+    const events: ChangeEvent[] = [];
+    db.on('change', event => events.push(event));
+    
+    db.set('config', { theme: 'dark' });
+    db.insertOne('users', { name: 'Alice' });
+    db.update('users', (user: any) => user.id === 1, { name: 'Bob' });
+    db.delete('users', (user: any) => user.id === 1);
+    
+    assert.deepEqual(events.map(event => [event.key, event.type]), [
+      ['config', 'set'],
+      ['users', 'set'],
+      ['users', 'push'],
+      ['users', 'update'],
+      ['users', 'delete']
+    ]);
+    assert.deepEqual(events[2].ids, [1]);
+    assert.deepEqual(events[3].oldValue, { name: 'Alice', id: 1 });
+    assert.deepEqual(events[3].newValue, { name: 'Bob', id: 1 });
+  });
+  
+  it('calls watchKey listeners for the path, its children and its parents until unsubscribed', () => {
+    const db = new NodedbJson(tempFile());
+    const keys: string[] = [];
+    const unsubscribe = db.watchKey('config.ui', event => keys.push(event.key));
+    
+    db.set('config.ui.theme', 'dark');
+    db.set('config', {});
+    db.set('other', 1);
+    unsubscribe();
+    db.set('config.ui', {});
+    
+    assert.deepEqual(keys, ['config.ui.theme', 'config']);
+  });
+  
+  it('holds events back until a transaction commits and drops them on rollback', () => {
+    const db = new NodedbJson(tempFile());
+    const events: string[] = [];
+    db.on('change', (event: ChangeEvent) => events.push(event.type === 'transaction' ? `transaction:${event.changes?.length}` : event.key));
+    
+    db.transaction(tx => {
+      tx.set('a', 1);
+      tx.set('b', 2);
+      assert.deepEqual(events, []);
+    });
+    assert.throws(() => db.transaction(tx => {
+      tx.set('c', 3);
+      throw new Error('abort');
+    }));
+    
+    assert.deepEqual(events, ['a', 'b', 'transaction:2']);
+  });
+});
+
+describe('watch mode', () => {
+  it('reloads external changes and ignores its own writes', async () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath, { watch: { interval: 10 } });
+    db.set('a', 1);
+    db.set('users', []);
+    db.createIndex('users', { field: 'id', type: 'unique' });
+    
+    const reloaded = waitFor(db, 'reload');
+    fs.writeFileSync(filePath, JSON.stringify({ a: 2, users: [{ id: 7 }] }));
+    const event = await reloaded;
+    
+    assert.equal(event.conflict, false);
+    assert.equal(db.get('a'), 2);
+    assert.deepEqual(db.findByField('users', 'id', 7), { id: 7 });
+    db.close();
+  });
+  
+  it('keeps local changes on conflict with onConflict: "keep"', async () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath, { autoSave: false, watch: { interval: 10, onConflict: 'keep' } });
+    db.set('a', 'local');
+    
+    const reloaded = waitFor(db, 'reload');
+    fs.writeFileSync(filePath, JSON.stringify({ a: 'external' }));
+    const event = await reloaded;
+    
+    assert.equal(event.conflict, true);
+    assert.equal(event.resolution, 'keep');
+    assert.equal(db.get('a'), 'local');
+    db.close();
+  });
+});
@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+
+const directories: string[] = [];
+
+/**
+ * 创建测试用的临时目录，测试进程退出时删除
+ * @returns {string} - 目录路径
+ */
+export function tempDir(): string {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'nodedb-json-test-'));
+  directories.push(directory);
+  return directory;
+}
+
+/**
+ * 获取临时目录中的数据文件路径
+ * @param {string} [name='db.json'] - 文件名
+ * @returns {string} - 文件路径
+ */
+export function tempFile(name: string = 'db.json'): string {
+  return path.join(tempDir(), name);
+}
+
+/**
+ * 读取流的全部内容
+ * @param {Readable} stream - 可读流
+ * @returns {Promise<string>} - 内容
+ */
+export async function readAll(stream: Readable): Promise<string> {
+  let content = '';
+  for await (const chunk of stream) {
+    content += chunk;
+  }
+  return content;
+}
+
+/**
+ * 把字符串按给定大小切块，模拟分多次到达的流
+ * @param {string} content - 内容
+ * @param {number} [size=7] - 每块的字符数
+ * @returns {Readable} - 可读流
+ */
+export function chunked(content: string, size: number = 7): Readable {
+  const chunks: string[] = [];
+  for (let i = 0; i < content.length; i += size) {
+    chunks.push(content.slice(i, i + size));
+  }
+  return Readable.from(chunks);
+}
+
+/**
+ * 等待事件触发，超时时失败；监视模式的轮询不会阻止进程退出，等待期间由计时器保持事件循环
+ * @param {EventEmitter} emitter - 事件源
+ * @param {string} event - 事件名
+ * @param {number} [timeout=5000] - 超时毫秒数
+ * @returns {Promise<any>} - 事件的第一个参数
+ */
+export function waitFor(emitter: EventEmitter, event: string, timeout: number = 5000): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out waiting for "${event}"`)), timeout);
+    emitter.once(event, value => {
+      clearTimeout(timer);
+      resolve(value);
+    });
+  });
+}
+
+process.on('exit', () => {
+  directories.forEach(directory => fs.rmSync(directory, { recursive: true, force: true }));
+});
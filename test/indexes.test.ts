@@ -0,0 +1,204 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import NodedbJson, { UniqueConstraintError } from '../src/index';
+import { tempFile } from './helpers';
+
+describe('index definitions', () => {
+  it('persists index definitions in a sidecar file and restores them on open', () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath);
+    db.set('users', [{ id: 1, age: 30 }]);
+    db.createIndex('users', { field: 'id', type: 'unique' });
+    
+    assert.ok(fs.existsSync(`${filePath}.indexes.json`));
+    const reopened = new NodedbJson(filePath);
+    assert.deepEqual(reopened.getIndexes(), { users: { id: { field: 'id', type: 'unique' } } });
+    assert.throws(() => reopened.push('users', { id: 1 }), UniqueConstraintError);
+  });
+  
+  it('keeps definitions in memory only with persistIndexes: false', () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath, { persistIndexes: false });
+    db.set('users', []);
+    db.createIndex('users', { field: 'id', type: 'unique' });
+    
+    assert.equal(fs.existsSync(`${filePath}.indexes.json`), false);
+    assert.deepEqual(new NodedbJson(filePath).getIndexes(), {});
+  });
+});
+
+describe('unique indexes', () => {
+  it('rejects duplicates on createIndex, push, set and update without changing the data', () => {
+    const db = new NodedbJson(tempFile());
+    db.set('users', [{ id: 1 }, { id: 1 }]);
+    assert.throws(() => db.createIndex('users', { field: 'id', type: 'unique' }), UniqueConstraintError);
+    
+    db.set('users', [{ id: 1 }, { id: 2 }]);
+    db.createIndex('users', { field: 'id', type: 'unique' });
+    assert.throws(() => db.push('users', { id: 2 }), (error: unknown) => {
+      assert.ok(error instanceof UniqueConstraintError);
+      assert.equal(error.collection, 'users');
+      assert.equal(error.field, 'id');
+      assert.equal(error.value, 2);
+      return true;
+    });
+    assert.throws(() => db.push('users', [{ id: 3 }, { id: 3 }]), UniqueConstraintError);
+    assert.throws(() => db.set('users', [{ id: 4 }, { id: 4 }]), UniqueConstraintError);
+    assert.throws(() => db.update('users', (user: any) => user.id === 2, { id: 1 }), UniqueConstraintError);
+    assert.deepEqual(db.get('users'), [{ id: 1 }, { id: 2 }]);
+  });
+  
+  it('constrains the full tuple of a compound unique index', () => {
+    const db = new NodedbJson(tempFile());
+    db.set('members', [{ team: 'a', name: 'x' }]);
+    db.createIndex('members', { field: ['team', 'name'], type: 'unique' });
+    
+    db.push('members', { team: 'b', name: 'x' });
+    assert.throws(() => db.push('members', { team: 'a', name: 'x' }), UniqueConstraintError);
+    assert.equal(db.get('members').length, 2);
+  });
+  
+  it('treats values of different types as distinct', () => {
+    const db = new NodedbJson(tempFile());
+    db.set('users', [{ id: 1 }]);
+    db.set('members', [{ team: 1, name: true }]);
+    db.createIndex('users', { field: 'id', type: 'unique' });
+    db.createIndex('members', { field: ['team', 'name'], type: 'unique' });
+    
+    db.push('users', { id: '1' });
+    db.push('members', [{ team: '1', name: true }, { team: 1, name: 'true' }]);
+    assert.throws(() => db.push('users', { id: '1' }), UniqueConstraintError);
+    assert.deepEqual(db.findByField('users', 'id', '1'), { id: '1' });
+    assert.deepEqual(db.query('members', { where: { team: 1, name: true } }).data, [{ team: 1, name: true }]);
+  });
+});
+
+describe('incremental maintenance', () => {
+  it('keeps lookups correct across push, update and delete', () => {
+    const db = new NodedbJson(tempFile());
+    db.set('users', [{ id: 1, city: 'Berlin' }, { id: 2, city: 'Paris' }]);
+    db.createIndex('users', { field: 'id', type: 'unique' });
+    db.createIndex('users', { field: 'city', type: 'multi' });
+    
+    db.push('users', { id: 3, city: 'Berlin' });
+    db.update('users', (user: any) => user.id === 1, { city: 'Rome' });
+    db.delete('users', (user: any) => user.id === 2);
+    
+    assert.deepEqual(db.findByField('users', 'id', 3), { id: 3, city: 'Berlin' });
+    assert.equal(db.findByField('users', 'id', 2), undefined);
+    assert.deepEqual(db.filterByField('users', 'city', ['Berlin', 'Rome']).map((user: any) => user.id), [3, 1]);
+    assert.deepEqual(db.filterByField('users', 'city', ['Paris']), []);
+  });
+});
+
+describe('index lookups', () => {
+  it('match field values strictly, as without an index', () => {
+    const plain = new NodedbJson(tempFile());
+    const indexed = new NodedbJson(tempFile());
+    for (const db of [plain, indexed]) {
+      db.set('items', [{ id: 1, at: new Date(1700000000000) }, { id: 2, at: 1700000000000 }, { id: 3 }]);
+    }
+    indexed.createIndex('items', { field: 'id', type: 'unique' });
+    indexed.createIndex('items', { field: 'at', type: 'sorted' });
+    
+    for (const db of [plain, indexed]) {
+      assert.equal(db.findByField('items', 'id', '3'), undefined);
+      assert.deepEqual(db.filterByField('items', 'id', ['1', 2]), [{ id: 2, at: 1700000000000 }]);
+      assert.deepEqual(db.filterByField('items', 'at', [1700000000000]), [{ id: 2, at: 1700000000000 }]);
+      db.delete('items', ['2', 3]);
+      assert.deepEqual(db.get('items').map((item: any) => item.id), [1, 2]);
+    }
+  });
+});
+
+describe('sorted indexes', () => {
+  it('answers range queries and sorts through the index', () => {
+    const db = new NodedbJson(tempFile());
+    db.set('users', [{ age: 40 }, { age: 20 }, { age: 35 }, {}, { age: 30 }]);
+    db.createIndex('users', { field: 'age', type: 'sorted' });
+    
+    const range = db.query('users', { where: { age: { $gte: 30, $lt: 40 } }, sort: { field: 'age', direction: 'desc' } });
+    assert.deepEqual(range.data.map((user: any) => user.age), [35, 30]);
+    assert.equal(range.stats.usedIndex, true);
+    
+    assert.deepEqual(db.orderBy('users', { field: 'age', direction: 'asc' }).map((user: any) => user.age), [20, 30, 35, 40, undefined]);
+    assert.deepEqual(db.orderBy('users', { field: 'age', direction: 'desc' }, 2).map((user: any) => user.age), [undefined, 40]);
+  });
+  
+  it('orders mixed types as numbers, then strings, then booleans', () => {
+    const db = new NodedbJson(tempFile());
+    db.set('items', [{ v: 'b' }, { v: true }, { v: 2 }, { v: 'a' }, { v: 1 }]);
+    db.createIndex('items', { field: 'v', type: 'sorted' });
+    
+    assert.deepEqual(db.orderBy('items', { field: 'v', direction: 'asc' }).map((item: any) => item.v), [1, 2, 'a', 'b', true]);
+    assert.deepEqual(db.query('items', { where: { v: { $gt: 1 } } }).data.map((item: any) => item.v), [2]);
+  });
+  
+  it('builds the same index over existing data as record by record', () => {
+    const records = [{ n: 1, v: 3 }, { n: 2, v: 'x' }, { n: 3 }, { n: 4, v: 3 }, { n: 5, v: [2, 9] }, { n: 6, v: 1 }, { n: 7, v: 'a' }];
+    const bulk = new NodedbJson(tempFile());
+    const incremental = new NodedbJson(tempFile());
+    bulk.set('items', records);
+    bulk.createIndex('items', { field: 'v', type: 'sorted', multikey: true });
+    incremental.set('items', []);
+    incremental.createIndex('items', { field: 'v', type: 'sorted', multikey: true });
+    records.forEach(record => incremental.push('items', record));
+    
+    for (const db of [bulk, incremental]) {
+      assert.deepEqual(db.query('items', { where: { v: { $gte: 2, $lt: 9 } } }).data.map((item: any) => item.n), [5, 1, 4]);
+      assert.deepEqual(db.query('items', { where: { v: { $gt: 'a' } } }).data.map((item: any) => item.n), [2]);
+      assert.deepEqual(db.filterByField('items', 'v', [3]).map((item: any) => item.n), [1, 4]);
+    }
+  });
+});
+
+describe('compound indexes', () => {
+  it('is used for the full tuple and for a prefix of its fields', () => {
+    const db = new NodedbJson(tempFile());
+    db.set('orders', [
+      { tenantId: 't1', status: 'open', n: 1 },
+      { tenantId: 't1', status: 'closed', n: 2 },
+      { tenantId: 't2', status: 'open', n: 3 }
+    ]);
+    db.createIndex('orders', { field: ['tenantId', 'status'], type: 'multi' });
+    
+    const full = db.query('orders', { where: { tenantId: 't1', status: 'open' } });
+    assert.deepEqual(full.data.map((order: any) => order.n), [1]);
+    assert.equal(full.stats.usedIndex, true);
+    
+    const prefix = db.query('orders', { where: { tenantId: 't1', n: { $gt: 1 } } });
+    assert.deepEqual(prefix.data.map((order: any) => order.n), [2]);
+    assert.deepEqual(Object.keys(db.getIndexes().orders), ['tenantId+status']);
+    
+    db.dropIndex('orders', ['tenantId', 'status']);
+    assert.equal(db.getIndexes().orders, undefined);
+  });
+});
+
+describe('nested and multikey indexes', () => {
+  it('indexes dotted paths and each element of an array field', () => {
+    const db = new NodedbJson(tempFile());
+    db.set('posts', [
+      { id: 1, author: { email: 'a@x' }, tags: ['node', 'ts'] },
+      { id: 2, author: { email: 'b@x' }, tags: ['node'] }
+    ]);
+    db.createIndex('posts', { field: 'author.email', type: 'unique' });
+    db.createIndex('posts', { field: 'tags', type: 'multi', multikey: true });
+    
+    assert.equal(db.findByField<any>('posts', 'author.email', 'b@x')?.id, 2);
+    assert.deepEqual(db.filterByField('posts', 'tags', ['node', 'ts']).map((post: any) => post.id), [1, 2]);
+    assert.deepEqual(db.query('posts', { where: { tags: 'ts' } }).data.map((post: any) => post.id), [1]);
+    assert.throws(() => db.push('posts', { id: 3, author: { email: 'a@x' } }), UniqueConstraintError);
+  });
+  
+  it('returns the same query results with and without a non-multikey index on an array field', () => {
+    const data = [{ id: 1, tags: ['a', 'b'] }, { id: 2, tags: 'a' }];
+    const plain = new NodedbJson(tempFile(), { defaultValue: { posts: data } });
+    const indexed = new NodedbJson(tempFile(), { defaultValue: { posts: data } });
+    indexed.createIndex('posts', { field: 'tags', type: 'multi' });
+    
+    const where = { tags: 'a' };
+    assert.deepEqual(indexed.query('posts', { where }).data, plain.query('posts', { where }).data);
+  });
+});
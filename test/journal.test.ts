@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import NodedbJson from '../src/index';
+import { tempFile } from './helpers';
+
+/**
+ * 读取日志文件的非空行
+ */
+function journalLines(filePath: string): string[] {
+  return fs.readFileSync(`${filePath}.wal`, 'utf8').split('\n').filter(line => line !== '');
+}
+
+describe('write-ahead journal', () => {
+  it('appends changes to the journal and replays them on open', () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath, { journal: true });
+    db.set('config', { theme: 'dark' });
+    db.push('events', [{ n: 1 }, { n: 2 }]);
+    db.update('events', (event: any) => event.n === 1, { seen: true });
+    db.delete('events', (event: any) => event.n === 2);
+    db.delete('config');
+    db.close();
+    
+    assert.equal(fs.readFileSync(filePath, 'utf8').trim(), '{}');
+    assert.equal(journalLines(filePath).length, 6);
+    assert.deepEqual(new NodedbJson(filePath, { journal: true }).get('events'), [{ n: 1, seen: true }]);
+  });
+  
+  it('compacts into the data file at maxEntries and on compact()', () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath, { journal: { maxEntries: 3 } });
+    db.set('a', 1);
+    db.set('b', 2);
+    assert.equal(journalLines(filePath).length, 3);
+    db.set('c', 3);
+    assert.equal(journalLines(filePath).length, 1);
+    assert.deepEqual(JSON.parse(fs.readFileSync(filePath, 'utf8')), { a: 1, b: 2, c: 3 });
+    
+    db.set('d', 4);
+    db.compact();
+    assert.equal(journalLines(filePath).length, 1);
+    assert.equal(JSON.parse(fs.readFileSync(filePath, 'utf8')).d, 4);
+  });
+  
+  it('discards a torn last line', () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath, { journal: true });
+    db.set('a', 1);
+    db.close();
+    fs.appendFileSync(`${filePath}.wal`, '{"op":"set","key":"b","va');
+    
+    const reopened = new NodedbJson(filePath, { journal: true });
+    assert.equal(reopened.get('a'), 1);
+    assert.equal(reopened.has('b'), false);
+    assert.equal(journalLines(filePath).length, 2);
+  });
+  
+  it('drops a journal whose base does not match the data file', () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath, { journal: true });
+    db.set('a', 1);
+    db.close();
+    fs.writeFileSync(filePath, '{"a":0}');
+    
+    assert.equal(new NodedbJson(filePath, { journal: true }).get('a'), 0);
+    assert.equal(fs.existsSync(`${filePath}.wal`), false);
+  });
+  
+  it('folds a leftover journal into the data file when opened without journal', () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath, { journal: true });
+    db.set('a', 1);
+    db.close();
+    
+    const plain = new NodedbJson(filePath);
+    assert.equal(plain.get('a'), 1);
+    assert.equal(fs.existsSync(`${filePath}.wal`), false);
+    assert.deepEqual(JSON.parse(fs.readFileSync(filePath, 'utf8')), { a: 1 });
+  });
+  
+  it('keeps changes made after recovering the data file from .bak', () => {
+    const filePath = tempFile();
+    const options = { journal: true, backup: true, onRecover: () => undefined };
+    const db = new NodedbJson(filePath, options);
+    db.set('a', 1);
+    db.compact();
+    db.set('a', 2);
+    db.compact();
+    db.close();
+    fs.writeFileSync(filePath, '{ corrupt');
+    
+    const recovered = new NodedbJson(filePath, options);
+    recovered.set('b', 'important');
+    recovered.close();
+    
+    const reopened = new NodedbJson(filePath, options);
+    assert.equal(reopened.get('a'), 1);
+    assert.equal(reopened.get('b'), 'important');
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import NodedbJson, { DatabaseLockedError } from '../src/index';
+import { tempFile } from './helpers';
+
+describe('file locking', () => {
+  it('holds the lock until close and makes other instances wait and fail', () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath, { lock: true });
+    assert.equal(JSON.parse(fs.readFileSync(`${filePath}.lock`, 'utf8')).pid, process.pid);
+    
+    assert.throws(() => new NodedbJson(filePath, { lock: { timeout: 50, retryInterval: 10 } }), (error: unknown) => {
+      assert.ok(error instanceof DatabaseLockedError);
+      assert.equal(error.pid, process.pid);
+      return true;
+    });
+    
+    db.close();
+    assert.equal(fs.existsSync(`${filePath}.lock`), false);
+    new NodedbJson(filePath, { lock: { timeout: 0 } }).close();
+  });
+  
+  it('takes over a lock whose process no longer exists', () => {
+    const filePath = tempFile();
+    fs.writeFileSync(`${filePath}.lock`, JSON.stringify({ pid: 2 ** 22 + 1, hostname: os.hostname(), acquiredAt: Date.now() }));
+    
+    const db = new NodedbJson(filePath, { lock: { timeout: 0 } });
+    assert.equal(JSON.parse(fs.readFileSync(`${filePath}.lock`, 'utf8')).pid, process.pid);
+    db.close();
+  });
+  
+  it('takes over a lock that has not been refreshed for staleMs', () => {
+    const filePath = tempFile();
+    const lockPath = `${filePath}.lock`;
+    fs.writeFileSync(lockPath, JSON.stringify({ pid: process.pid, hostname: 'elsewhere', acquiredAt: 0 }));
+    const past = new Date(Date.now() - 60000);
+    fs.utimesSync(lockPath, past, past);
+    
+    const db = new NodedbJson(filePath, { lock: { timeout: 0, staleMs: 30000 } });
+    assert.equal(JSON.parse(fs.readFileSync(lockPath, 'utf8')).hostname, os.hostname());
+    db.close();
+  });
+  
+  it('acquires the lock when the holder removes the lock file while it is being read', t => {
+    const filePath = tempFile();
+    const lockPath = `${filePath}.lock`;
+    fs.writeFileSync(lockPath, '{"pid":');
+    
+    // 读到不完整的内容后，持有者恰好删除了锁文件
+    const realFs: typeof fs = require('fs');
+    const readFileSync = realFs.readFileSync;
+    let removed = false;
+    t.mock.method(realFs, 'readFileSync', function (this: unknown, ...args: any[]) {
+      const content = (readFileSync as (...args: any[]) => any).apply(this, args);
+      if (!removed) {
+        removed = true;
+        realFs.unlinkSync(lockPath);
+      }
+      return content;
+    });
+    
+    const db = new NodedbJson(filePath, { lock: { timeout: 1000, retryInterval: 10 } });
+    t.mock.restoreAll();
+    assert.ok(removed);
+    assert.equal(JSON.parse(fs.readFileSync(lockPath, 'utf8')).pid, process.pid);
+    db.close();
+  });
+  
+  it('opens read-only instances without the lock and rejects their writes', () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath, { lock: true });
+    db.set('a', 1);
+    
+    const reader = new NodedbJson(filePath, { lock: true, readOnly: true });
+    assert.equal(reader.get('a'), 1);
+    assert.throws(() => reader.set('a', 2), /read-only/i);
+    db.close();
+  });
+});
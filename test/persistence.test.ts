@@ -0,0 +1,112 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import NodedbJson, { NodedbJsonAsync } from '../src/index';
+import { tempFile } from './helpers';
+
+/**
+ * 等待指定毫秒数
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * 读取并解析 JSON 文件
+ */
+function readJson(filePath: string): any {
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+describe('atomic writes and backups', () => {
+  it('writes through a temporary file and leaves no temporary files behind', () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath);
+    db.set('a', 1);
+    db.set('b', 2);
+    
+    assert.deepEqual(readJson(filePath), { a: 1, b: 2 });
+    assert.deepEqual(fs.readdirSync(path.dirname(filePath)), ['db.json']);
+  });
+  
+  it('recovers from .bak when the data file is corrupt', () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath, { backup: true });
+    db.set('a', 1);
+    db.set('a', 2);
+    assert.deepEqual(readJson(`${filePath}.bak`), { a: 1 });
+    
+    fs.writeFileSync(filePath, '{ "a": ');
+    const recoveries: any[] = [];
+    const recovered = new NodedbJson(filePath, { backup: true, onRecover: info => recoveries.push(info) });
+    assert.equal(recovered.get('a'), 1);
+    assert.equal(recoveries.length, 1);
+    assert.equal(recoveries[0].backupPath, `${filePath}.bak`);
+    
+    // 下次保存不能用损坏的主文件覆盖备份
+    recovered.set('b', 1);
+    assert.deepEqual(readJson(`${filePath}.bak`), { a: 1 });
+  });
+});
+
+describe('debounced autoSave', () => {
+  it('writes once after the debounce delay', async () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath, { autoSave: { debounceMs: 30 } });
+    db.set('a', 1);
+    db.set('b', 2);
+    assert.deepEqual(readJson(filePath), {});
+    
+    await sleep(80);
+    assert.deepEqual(readJson(filePath), { a: 1, b: 2 });
+    db.close();
+  });
+  
+  it('writes right away once maxPendingChanges is reached', () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath, { autoSave: { debounceMs: 10000, maxPendingChanges: 2 } });
+    db.set('a', 1);
+    assert.deepEqual(readJson(filePath), {});
+    db.set('b', 2);
+    assert.deepEqual(readJson(filePath), { a: 1, b: 2 });
+    db.close();
+  });
+  
+  it('writes pending changes on close', () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath, { autoSave: { debounceMs: 10000 } });
+    db.set('a', 1);
+    db.close();
+    assert.deepEqual(readJson(filePath), { a: 1 });
+  });
+});
+
+describe('async persistence', () => {
+  it('coalesces concurrent writes and resolves once they are on disk', async () => {
+    const filePath = tempFile();
+    const db = new NodedbJsonAsync(filePath);
+    const user = await db.insertOne<any>('users', { name: 'Bob' });
+    
+    await Promise.all([
+      db.push('logs', { action: 'a' }),
+      db.push('logs', { action: 'b' }),
+      db.update('users', (u: any) => u.id === user.id, { active: true })
+    ]);
+    assert.deepEqual(readJson(filePath), {
+      users: [{ name: 'Bob', id: 1, active: true }],
+      logs: [{ action: 'a' }, { action: 'b' }]
+    });
+    
+    await db.close();
+    await assert.rejects(db.set('a', 1));
+  });
+  
+  it('saves pending changes asynchronously with flush()', async () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath, { autoSave: false });
+    db.set('a', 1);
+    await db.flush();
+    assert.deepEqual(readJson(filePath), { a: 1 });
+  });
+});
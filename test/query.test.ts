@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import NodedbJson from '../src/index';
+import { tempFile } from './helpers';
+
+const users = [
+  { id: 1, name: 'Alice', age: 31, tags: ['admin', 'dev'], address: { city: 'Berlin' } },
+  { id: 2, name: 'bob', age: 25, tags: ['dev'], address: { city: 'Paris' } },
+  { id: 3, name: 'Carol', age: 42, tags: [], scores: [{ value: 7 }, { value: 3 }] }
+];
+
+/**
+ * 查询并返回匹配记录的 id
+ */
+function ids(db: NodedbJson, where: Record<string, any>): number[] {
+  return db.query('users', { where }).data.map((user: any) => user.id);
+}
+
+describe('query operators', () => {
+  const db = new NodedbJson(tempFile(), { defaultValue: { users } });
+  
+  it('compares with $eq, $ne, $gt, $gte, $lt and $lte', () => {
+    assert.deepEqual(ids(db, { age: { $eq: 25 } }), [2]);
+    assert.deepEqual(ids(db, { age: { $ne: 25 } }), [1, 3]);
+    assert.deepEqual(ids(db, { age: { $gt: 25, $lte: 42 } }), [1, 3]);
+    assert.deepEqual(ids(db, { age: { $gte: 31, $lt: 42 } }), [1]);
+  });
+  
+  it('does not compare values of different types', () => {
+    assert.deepEqual(ids(db, { age: { $gt: '30' } }), []);
+    assert.deepEqual(ids(db, { id: '1' }), []);
+  });
+  
+  it('matches sets with $in and $nin, and presence with $exists', () => {
+    assert.deepEqual(ids(db, { name: { $in: ['Alice', 'Carol'] } }), [1, 3]);
+    assert.deepEqual(ids(db, { name: { $nin: ['Alice', 'Carol'] } }), [2]);
+    assert.deepEqual(ids(db, { scores: { $exists: true } }), [3]);
+    assert.throws(() => ids(db, { name: { $in: 'Alice' } }), /requires an array/);
+  });
+  
+  it('matches strings with $regex and $options', () => {
+    assert.deepEqual(ids(db, { name: { $regex: '^b', $options: 'i' } }), [2]);
+    assert.deepEqual(ids(db, { name: /^[AC]/ }), [1, 3]);
+  });
+  
+  it('matches array elements directly and with $elemMatch', () => {
+    assert.deepEqual(ids(db, { tags: 'dev' }), [1, 2]);
+    assert.deepEqual(ids(db, { scores: { $elemMatch: { value: { $gt: 5 } } } }), [3]);
+  });
+  
+  it('combines conditions with $and, $or and $not on nested paths', () => {
+    assert.deepEqual(ids(db, { $or: [{ 'address.city': 'Paris' }, { age: { $gt: 40 } }] }), [2, 3]);
+    assert.deepEqual(ids(db, { $and: [{ tags: 'dev' }, { $not: { 'address.city': 'Berlin' } }] }), [2]);
+    assert.deepEqual(ids(db, { age: { $not: { $gt: 30 } } }), [2]);
+  });
+  
+  it('rejects unknown operators', () => {
+    assert.throws(() => ids(db, { age: { $between: [1, 2] } }), /Unsupported query operator: \$between/);
+  });
+  
+  it('returns the same results with an index on the queried field', () => {
+    const indexed = new NodedbJson(tempFile(), { defaultValue: { users } });
+    indexed.createIndex('users', { field: 'age', type: 'sorted' });
+    indexed.createIndex('users', { field: 'name', type: 'multi' });
+    
+    for (const where of [{ age: { $gt: 25, $lte: 42 } }, { name: { $in: ['Alice', 'bob'] }, age: { $lt: 30 } }, { age: 31 }]) {
+      assert.deepEqual(ids(indexed, where), ids(db, where));
+    }
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import NodedbJson, { MigrationError, SchemaVersionError, ValidationError } from '../src/index';
+import { tempFile } from './helpers';
+
+describe('schema validation', () => {
+  it('rejects invalid writes and reports every failing path', () => {
+    const db = new NodedbJson(tempFile(), {
+      schemas: { users: [{ name: 'string', 'email?': 'string', tags: 'string[]' }] }
+    });
+    db.push('users', { name: 'Bob', tags: [] });
+    
+    assert.throws(() => db.push('users', { name: 42 }), (error: unknown) => {
+      assert.ok(error instanceof ValidationError);
+      assert.deepEqual(error.errors.map(issue => [issue.path, issue.keyword]), [['users.1.tags', 'required'], ['users.1.name', 'type']]);
+      return true;
+    });
+    assert.throws(() => db.set('users.0.tags', 'x'), ValidationError);
+    assert.throws(() => db.update('users', (user: any) => user.name === 'Bob', { email: 1 }), ValidationError);
+    assert.throws(() => db.delete('users.0', ['name']), ValidationError);
+    assert.deepEqual(db.get('users'), [{ name: 'Bob', tags: [] }]);
+  });
+  
+  it('fills defaults and coerces types when enabled', () => {
+    const db = new NodedbJson(tempFile(), {
+      schemas: { users: [{ name: 'string', age: { type: 'integer', minimum: 0, default: 18 }, active: 'boolean?' }] },
+      validation: { useDefaults: true, coerceTypes: true }
+    });
+    
+    db.push('users', [{ name: 'A' }, { name: 'B', age: '30', active: 'true' }]);
+    assert.deepEqual(db.get('users'), [{ name: 'A', age: 18 }, { name: 'B', age: 30, active: true }]);
+    assert.throws(() => db.push('users', { name: 'C', age: -1 }), ValidationError);
+  });
+  
+  it('reads JSON Schema objects and treats other objects as shorthand', () => {
+    const db = new NodedbJson(tempFile());
+    db.registerSchema('settings', { type: 'object', properties: { theme: { type: 'string', enum: ['light', 'dark'] } }, additionalProperties: false });
+    db.registerSchema('items', [{ name: 'string', type: 'string' }]);
+    
+    db.set('settings', { theme: 'dark' });
+    assert.throws(() => db.set('settings', { theme: 'blue' }), ValidationError);
+    assert.throws(() => db.set('settings', { other: 1 }), ValidationError);
+    db.push('items', { name: 'a', type: 'b' });
+    assert.throws(() => db.push('items', { name: 'a' }), ValidationError);
+    
+    db.removeSchema('settings');
+    db.set('settings', { other: 1 });
+  });
+});
+
+describe('migrations', () => {
+  const migrations = [
+    { name: 'split-name', up: (db: NodedbJson) => db.set('users', db.get('users').map(({ name, ...user }: any) => ({ ...user, first: name.split(' ')[0] }))) },
+    { name: 'index-first', up: (db: NodedbJson) => db.createIndex('users', { field: 'first', type: 'multi' }) }
+  ];
+  
+  it('runs pending migrations at open time and stores the version', () => {
+    const filePath = tempFile();
+    fs.writeFileSync(filePath, JSON.stringify({ users: [{ name: 'Ada Lovelace' }] }));
+    
+    const db = new NodedbJson(filePath, { migrations });
+    assert.equal(db.getSchemaVersion(), 2);
+    assert.deepEqual(db.get('users'), [{ first: 'Ada' }]);
+    assert.deepEqual(JSON.parse(fs.readFileSync(filePath, 'utf8'))._schemaVersion, 2);
+    assert.deepEqual(Object.keys(db.getIndexes().users), ['first']);
+    
+    // 已是最新版本时不再运行
+    assert.deepEqual(new NodedbJson(filePath, { migrations }).get('users'), [{ first: 'Ada' }]);
+  });
+  
+  it('rolls back every pending migration when one throws', () => {
+    const filePath = tempFile();
+    const content = JSON.stringify({ users: [{ name: 'Ada Lovelace' }] });
+    fs.writeFileSync(filePath, content);
+    
+    assert.throws(() => new NodedbJson(filePath, { migrations: [migrations[0], { up: () => { throw new Error('boom'); } }] }), (error: unknown) => {
+      assert.ok(error instanceof MigrationError);
+      assert.equal(error.version, 2);
+      assert.equal((error.cause as Error).message, 'boom');
+      return true;
+    });
+    assert.equal(fs.readFileSync(filePath, 'utf8'), content);
+  });
+  
+  it('refuses files newer than the last migration', () => {
+    const filePath = tempFile();
+    fs.writeFileSync(filePath, JSON.stringify({ _schemaVersion: 3 }));
+    assert.throws(() => new NodedbJson(filePath, { migrations }), SchemaVersionError);
+  });
+});
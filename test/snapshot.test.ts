@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import NodedbJson, { FileStorageAdapter, MemoryStorageAdapter, UniqueConstraintError, ValidationError } from '../src/index';
+import { ChangeEvent } from '../src/types';
+import { tempDir, tempFile } from './helpers';
+
+describe('snapshot', () => {
+  it('writes unsaved data and index definitions to a file that opens as a database', () => {
+    const db = new NodedbJson(tempFile(), { autoSave: false });
+    db.set('users', [{ id: 1 }]);
+    db.createIndex('users', { field: 'id', type: 'unique' });
+    
+    const dest = path.join(tempDir(), 'backup.json');
+    const info = db.snapshot(dest);
+    assert.equal(info.location, dest);
+    
+    const copy = new NodedbJson(dest);
+    assert.deepEqual(copy.get('users'), [{ id: 1 }]);
+    assert.throws(() => copy.push('users', { id: 1 }), UniqueConstraintError);
+  });
+  
+  it('numbers timestamped snapshots and keeps only the newest with retain', () => {
+    const db = new NodedbJson(tempFile());
+    const directory = path.join(tempDir(), 'snapshots');
+    
+    const locations: string[] = [];
+    for (let i = 0; i < 5; i++) {
+      db.set('n', i);
+      locations.push(db.snapshot(directory, { timestamped: true, retain: 3 }).location);
+    }
+    
+    assert.equal(new Set(locations).size, 5);
+    assert.deepEqual(fs.readdirSync(directory).sort(), locations.slice(2).map(location => path.basename(location)).sort());
+    assert.equal(new NodedbJson(locations[4]).get('n'), 4);
+  });
+  
+  it('leaves no timestamped snapshot file behind when the snapshot fails', () => {
+    let keyAvailable = true;
+    const db = new NodedbJson(tempFile(), {
+      encryption: {
+        key: () => {
+          if (!keyAvailable) {
+            throw new Error('key unavailable');
+          }
+          return 'a'.repeat(64);
+        }
+      }
+    });
+    db.set('users', [{ id: 1 }]);
+    db.createIndex('users', { field: 'id', type: 'unique' });
+    const directory = path.join(tempDir(), 'snapshots');
+    db.snapshot(directory, { timestamped: true });
+    const before = fs.readdirSync(directory).sort();
+    
+    keyAvailable = false;
+    assert.throws(() => db.snapshot(directory, { timestamped: true, retain: 1 }), /key unavailable/);
+    assert.deepEqual(fs.readdirSync(directory).sort(), before);
+    
+    keyAvailable = true;
+    const write = FileStorageAdapter.prototype.write;
+    FileStorageAdapter.prototype.write = function (entry, content) {
+      if (entry === 'data') {
+        throw new Error('disk full');
+      }
+      return write.call(this, entry, content);
+    };
+    try {
+      assert.throws(() => db.snapshot(directory, { timestamped: true, retain: 1 }), /disk full/);
+    } finally {
+      FileStorageAdapter.prototype.write = write;
+    }
+    assert.deepEqual(fs.readdirSync(directory).sort(), before);
+  });
+  
+  it('rejects retain without timestamped snapshots', () => {
+    const db = new NodedbJson(tempFile());
+    assert.throws(() => db.snapshot(tempFile(), { retain: 2 }), /retain/);
+  });
+});
+
+describe('restore', () => {
+  it('replaces data and indexes, saves right away and emits set events for changed keys', () => {
+    const filePath = tempFile();
+    const db = new NodedbJson(filePath);
+    db.set('users', [{ id: 1 }]);
+    db.set('config', { theme: 'dark' });
+    const snapshot = new MemoryStorageAdapter();
+    db.snapshot(snapshot);
+    
+    db.push('users', { id: 2 });
+    db.createIndex('users', { field: 'id', type: 'unique' });
+    const events: ChangeEvent[] = [];
+    db.on('change', event => events.push(event));
+    db.restore(snapshot);
+    
+    assert.deepEqual(db.get('users'), [{ id: 1 }]);
+    assert.deepEqual(db.getIndexes(), {});
+    assert.deepEqual(new NodedbJson(filePath).get('users'), [{ id: 1 }]);
+    assert.deepEqual(events.map(event => [event.key, event.type]), [['users', 'set']]);
+  });
+  
+  it('keeps the current data when the snapshot fails a schema', () => {
+    const db = new NodedbJson(tempFile());
+    db.set('users', [{ name: 1 }]);
+    const snapshot = new MemoryStorageAdapter();
+    db.snapshot(snapshot);
+    
+    db.set('users', []);
+    db.registerSchema('users', [{ name: 'string' }]);
+    assert.throws(() => db.restore(snapshot), ValidationError);
+    assert.deepEqual(db.get('users'), []);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import NodedbJson, { GzipFileStorageAdapter, MemoryStorageAdapter } from '../src/index';
+import { StorageAdapter, StorageEntry } from '../src/types';
+import { tempDir, tempFile } from './helpers';
+
+describe('storage adapters', () => {
+  it('keeps everything in memory with MemoryStorageAdapter', () => {
+    const storage = new MemoryStorageAdapter({ users: [{ id: 1 }] });
+    const db = new NodedbJson(storage, { journal: true });
+    db.createIndex('users', { field: 'id', type: 'unique' });
+    db.push('users', { id: 2 });
+    
+    const reopened = new NodedbJson(storage, { journal: true });
+    assert.deepEqual(reopened.get('users'), [{ id: 1 }, { id: 2 }]);
+    assert.deepEqual(Object.keys(reopened.getIndexes().users), ['id']);
+  });
+  
+  it('compresses the data file with GzipFileStorageAdapter', () => {
+    const filePath = tempFile('db.json.gz');
+    new NodedbJson(new GzipFileStorageAdapter(filePath)).set('a', 'value');
+    
+    assert.deepEqual(JSON.parse(zlib.gunzipSync(fs.readFileSync(filePath)).toString()), { a: 'value' });
+    assert.equal(new NodedbJson(new GzipFileStorageAdapter(filePath)).get('a'), 'value');
+  });
+  
+  it('works with a custom adapter that only implements the required methods', () => {
+    const store = new Map<string, string>();
+    const storage: StorageAdapter = {
+      location: 'kv:test',
+      read: (entry: StorageEntry) => store.get(entry),
+      write: (entry: StorageEntry, content: string) => { store.set(entry, content); },
+      remove: (entry: StorageEntry) => { store.delete(entry); }
+    };
+    
+    const db = new NodedbJson(storage, { journal: true, backup: true });
+    db.set('a', 1);
+    db.set('b', 2);
+    assert.deepEqual(new NodedbJson(storage, { journal: true }).get('b'), 2);
+    assert.ok(store.has('journal'));
+    assert.throws(() => new NodedbJson(storage, { lock: true }), /does not support locking/);
+  });
+});
+
+describe('multi-file mode', () => {
+  it('stores each top-level key in its own file and writes only changed keys', () => {
+    const directory = path.join(tempDir(), 'db');
+    const db = new NodedbJson(directory, { multiFile: true, defaultValue: { users: [], settings: {} } });
+    assert.deepEqual(fs.readdirSync(directory).sort(), ['settings.json', 'users.json']);
+    
+    const usersPath = path.join(directory, 'users.json');
+    // 整秒时间戳，避免文件系统时间精度导致的比较误差
+    const past = new Date(Math.floor(Date.now() / 1000) * 1000 - 60000);
+    fs.utimesSync(usersPath, past, past);
+    db.push('logs', { n: 1 });
+    assert.equal(fs.statSync(usersPath).mtimeMs, past.getTime());
+    assert.deepEqual(JSON.parse(fs.readFileSync(path.join(directory, 'logs.json'), 'utf8')), [{ n: 1 }]);
+    
+    db.delete('settings');
+    assert.equal(fs.existsSync(path.join(directory, 'settings.json')), false);
+  });
+  
+  it('loads a key file on first access', () => {
+    const directory = path.join(tempDir(), 'db');
+    new NodedbJson(directory, { multiFile: true }).set('users', [{ id: 1 }]);
+    
+    const db = new NodedbJson(directory, { multiFile: true });
+    fs.writeFileSync(path.join(directory, 'users.json'), '[{"id":2}]');
+    assert.deepEqual(db.get('users'), [{ id: 2 }]);
+  });
+  
+  it('rejects the journal and watch options', () => {
+    assert.throws(() => new NodedbJson(path.join(tempDir(), 'db'), { multiFile: true, journal: true }), /not supported in multi-file mode/);
+  });
+});
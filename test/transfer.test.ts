@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import NodedbJson, { MemoryStorageAdapter, UniqueConstraintError, ValidationError } from '../src/index';
+import { StorageEntry } from '../src/types';
+import { chunked, readAll, tempFile } from './helpers';
+
+describe('importCollection', () => {
+  it('imports NDJSON and rejects unparsable, invalid and duplicate records', async () => {
+    const db = new NodedbJson(tempFile(), { schemas: { users: [{ id: 'integer?', name: 'string' }] } });
+    db.set('users', []);
+    db.createIndex('users', { field: 'id', type: 'unique' });
+    const input = ['{"name":"a"}', '{"name":', '{"name":5}', '{"id":1,"name":"dup"}', '[1]', '', '{"name":"b"}'].join('\n');
+    
+    const progress: number[] = [];
+    const result = await db.importCollection('users', chunked(input), { format: 'ndjson', batchSize: 2, onProgress: ({ processed }) => progress.push(processed) });
+    
+    assert.equal(result.imported, 2);
+    assert.deepEqual(result.rejected.map(rejected => rejected.row), [2, 3, 4, 5]);
+    assert.ok(result.rejected[1].error instanceof ValidationError);
+    assert.ok(result.rejected[2].error instanceof UniqueConstraintError);
+    assert.deepEqual(db.get('users').map((user: any) => user.name), ['a', 'b']);
+    assert.deepEqual(progress, [2, 4, 6]);
+  });
+  
+  it('imports CSV with typed, renamed and skipped columns', async () => {
+    const db = new NodedbJson(tempFile());
+    const input = 'name,age,city,note,active\n"Smith, Jo",42,Berlin,x,true\n"He said ""hi""",,Paris,y,false\n';
+    
+    const result = await db.importCollection('people', chunked(input, 5), {
+      format: 'csv',
+      columns: { age: 'integer', city: { field: 'address.city' }, note: false, active: 'boolean' }
+    });
+    
+    assert.equal(result.imported, 2);
+    assert.deepEqual(db.get('people'), [
+      { name: 'Smith, Jo', age: 42, address: { city: 'Berlin' }, active: true, id: 1 },
+      { name: 'He said "hi"', address: { city: 'Paris' }, active: false, id: 2 }
+    ]);
+  });
+  
+  it('parses a JSON array element by element', async () => {
+    const db = new NodedbJson(tempFile());
+    const input = '[{"name":"a","tags":["x","]"]}, {"name":"b \\"quoted\\" }"} ,\n 3]';
+    
+    const result = await db.importCollection('items', chunked(input, 3), { format: 'json' });
+    assert.equal(result.imported, 2);
+    assert.deepEqual(db.get('items').map((item: any) => item.name), ['a', 'b "quoted" }']);
+    assert.deepEqual(result.rejected.map(rejected => rejected.row), [3]);
+  });
+  
+  it('writes the data once per import and once when the import stops with an error', async () => {
+    const writes: string[] = [];
+    const storage = new MemoryStorageAdapter();
+    const write = storage.write.bind(storage);
+    storage.write = (entry: StorageEntry, content: string) => {
+      writes.push(entry);
+      write(entry, content);
+    };
+    const db = new NodedbJson(storage);
+    writes.length = 0;
+    const lines = Array.from({ length: 10 }, (_, i) => JSON.stringify({ n: i })).join('\n');
+    
+    await db.importCollection('items', chunked(lines), { format: 'ndjson', batchSize: 2 });
+    assert.deepEqual(writes.filter(entry => entry === 'data'), ['data']);
+    
+    // 读取中途失败时，已插入的批次也只保存一次
+    writes.length = 0;
+    await assert.rejects(db.importCollection('items', chunked(`[${lines.split('\n').join(',')}`), { format: 'json', batchSize: 2 }), /not closed/);
+    assert.deepEqual(writes.filter(entry => entry === 'data'), ['data']);
+    assert.equal(db.get('items').length, 18);
+    assert.equal(new NodedbJson(storage).get('items').length, 18);
+  });
+  
+  it('parses records split across many chunks in the same way', async () => {
+    const records = [{ text: 'a, "b"\nc', list: [1, { deep: ']' }] }, { text: 'x', list: [] }];
+    const csv = 'text,list\n"a, ""b""\nc","[1,{""deep"":""]""}]"\nx,[]\n';
+    
+    for (const size of [1, 2, 1000]) {
+      const db = new NodedbJson(tempFile());
+      await db.importCollection('ndjson', chunked(records.map(record => JSON.stringify(record)).join('\n'), size), { format: 'ndjson' });
+      await db.importCollection('json', chunked(JSON.stringify(records), size), { format: 'json' });
+      await db.importCollection('csv', chunked(csv, size), { format: 'csv', columns: { list: 'json' } });
+      for (const key of ['ndjson', 'json', 'csv']) {
+        assert.deepEqual(db.get(key), records.map((record, i) => ({ ...record, id: i + 1 })));
+      }
+    }
+  });
+});
+
+describe('exportCollection', () => {
+  const db = new NodedbJson(tempFile(), {
+    defaultValue: { users: [{ id: 1, name: 'Jo, Jr', age: 20, address: { city: 'Berlin' } }, { id: 2, name: 'Al', age: 15 }] }
+  });
+  
+  it('exports NDJSON and JSON', async () => {
+    assert.equal(await readAll(db.exportCollection('users', 'ndjson', { where: { age: { $gte: 18 } } })), '{"id":1,"name":"Jo, Jr","age":20,"address":{"city":"Berlin"}}\n');
+    assert.deepEqual(JSON.parse(await readAll(db.exportCollection('users', 'json'))), db.get('users'));
+  });
+  
+  it('exports CSV with the given columns or the union of top-level fields', async () => {
+    assert.equal(await readAll(db.exportCollection('users', 'csv', { columns: ['id', 'address.city'] })), 'id,address.city\n1,Berlin\n2,\n');
+    assert.equal(await readAll(db.exportCollection('users', 'csv')), 'id,name,age,address\n1,"Jo, Jr",20,"{""city"":""Berlin""}"\n2,Al,15,\n');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import NodedbJson, { UniqueConstraintError, ValidationError } from '../src/index';
+import { tempFile } from './helpers';
+
+/**
+ * 创建只有一条文章记录的数据库
+ */
+function createDb(): NodedbJson {
+  return new NodedbJson(tempFile(), {
+    defaultValue: { posts: [{ id: 1, title: 'Hello', stats: { views: 1 }, tags: ['a'], draft: true }] }
+  });
+}
+
+describe('update operators', () => {
+  it('applies $set, $unset, $inc, $mul, $min, $max and $rename', () => {
+    const db = createDb();
+    db.update('posts', (post: any) => post.id === 1, {
+      $set: { 'author.name': 'Alice' },
+      $unset: { draft: true },
+      $inc: { 'stats.views': 2, 'stats.likes': 1 },
+      $mul: { 'stats.shares': 3 },
+      $min: { 'stats.low': 5 },
+      $max: { id: 0 },
+      $rename: { title: 'headline' }
+    });
+    
+    assert.deepEqual(db.get('posts')[0], {
+      id: 1,
+      headline: 'Hello',
+      stats: { views: 3, likes: 1, shares: 0, low: 5 },
+      tags: ['a'],
+      author: { name: 'Alice' }
+    });
+  });
+  
+  it('appends with $push and $addToSet, and removes with $pull', () => {
+    const db = createDb();
+    db.updateMany('posts', { id: 1 }, { $push: { tags: { $each: ['b', 'c'] } }, $addToSet: { 'meta.seen': 'x' } });
+    db.updateMany('posts', { id: 1 }, { $addToSet: { tags: 'a', 'meta.seen': 'x' } });
+    assert.deepEqual(db.get('posts.0.tags'), ['a', 'b', 'c']);
+    assert.deepEqual(db.get('posts.0.meta.seen'), ['x']);
+    
+    db.updateMany('posts', { id: 1 }, { $pull: { tags: { $in: ['a', 'c'] } } });
+    assert.deepEqual(db.get('posts.0.tags'), ['b']);
+  });
+  
+  it('leaves the record unchanged when an operator, schema or unique index fails', () => {
+    const db = createDb();
+    db.push('posts', { id: 2, title: 'Other', stats: { views: 0 }, tags: [] });
+    db.createIndex('posts', { field: 'id', type: 'unique' });
+    const before = db.get('posts');
+    
+    assert.throws(() => db.updateMany('posts', { id: 1 }, { $inc: { title: 1 } }));
+    assert.throws(() => db.updateMany('posts', { id: 1 }, { $set: { id: 2 } }), UniqueConstraintError);
+    db.registerSchema('posts', [{ id: 'integer', 'title?': 'string' }]);
+    assert.throws(() => db.updateMany('posts', { id: 1 }, { $set: { title: 5 } }), ValidationError);
+    assert.deepEqual(db.get('posts'), before);
+  });
+  
+  it('rejects operators mixed with plain fields', () => {
+    const db = createDb();
+    assert.throws(() => db.updateMany('posts', { id: 1 }, { $set: { title: 'x' }, draft: false } as any));
+  });
+});